@@ -22,6 +22,7 @@ import { fileURLToPath } from 'url';
 import { getEnvironmentConfig } from '../config.js';
 import { createProxyCommand } from '../cli/commands/proxy.js';
 import { createInspectCommand } from '../cli/commands/inspect.js';
+import { createReplayCommand } from '../cli/commands/replay.js';
 
 /**
  * Load version from package.json dynamically
@@ -80,6 +81,7 @@ Examples:
   # CLI Tools Mode:
   $ reloaderoo inspect list-tools -- node server.js      # Debug server tools
   $ reloaderoo inspect call-tool weather --params '{"location": "NYC"}' -- node server.js
+  $ reloaderoo replay session.jsonl -- node server.js    # Re-run a recorded session
   $ reloaderoo info                                       # System information
 
 Mode Selection:
@@ -99,6 +101,7 @@ Environment Variables:
 // Add subcommands
 program.addCommand(createProxyCommand());
 program.addCommand(createInspectCommand());
+program.addCommand(createReplayCommand());
 
 // Info subcommand for diagnostics
 program
@@ -157,7 +160,7 @@ function shouldRunCLI(): boolean {
   }
 
   // Explicit subcommands = CLI mode
-  if (['proxy', 'inspect', 'info', 'help'].includes(args[0]!)) {
+  if (['proxy', 'inspect', 'replay', 'info', 'help'].includes(args[0]!)) {
     return true;
   }
 
@@ -214,7 +217,7 @@ export async function runCLI(): Promise<void> {
     // Handle backward compatibility: if no subcommand provided and -- exists, default to proxy
     const dashIndex = process.argv.indexOf('--');
     const hasValidSubcommand = process.argv.length > 2 &&
-      ['proxy', 'inspect', 'info'].includes(process.argv[2]!);
+      ['proxy', 'inspect', 'replay', 'info'].includes(process.argv[2]!);
 
     if (!hasValidSubcommand && dashIndex !== -1) {
       // Insert 'proxy' before parsing for backward compatibility
@@ -0,0 +1,155 @@
+/**
+ * BuildRunner - Runs the configured build command before the child server is restarted
+ * so a broken build never replaces a working server.
+ */
+
+import { spawn } from 'cross-spawn';
+import { logger } from './mcp-logger.js';
+
+/** Maximum number of output characters kept from a build (the tail is kept) */
+const MAX_BUILD_OUTPUT = 64 * 1024;
+
+/** Options for running a build command */
+export interface BuildOptions {
+  /** Working directory for the build */
+  cwd: string;
+  /** Environment variables for the build process */
+  env: Record<string, string>;
+  /** Timeout in milliseconds before the build is killed */
+  timeout: number;
+  /** Kills the build when aborted, e.g. because the proxy is shutting down */
+  signal?: AbortSignal;
+  /** What the command is called in logs and output, e.g. 'Restart' for a restart hook; 'Build' by default */
+  label?: string;
+}
+
+/** Outcome of a build command */
+export interface BuildResult {
+  /** Whether the build exited with code 0 */
+  success: boolean;
+  /** Exit code of the build process (null if killed or failed to start) */
+  exitCode: number | null;
+  /** Combined stdout and stderr output */
+  output: string;
+  /** Build duration in milliseconds */
+  duration: number;
+  /** Whether the build was killed because it exceeded the timeout */
+  timedOut: boolean;
+}
+
+/**
+ * Run a shell build command, or another command under its label, and capture its combined output.
+ * Never rejects: spawn errors, timeouts and aborts are reported as failed builds.
+ * A build still running when the proxy process exits is killed with it.
+ */
+export function runBuildCommand(command: string, options: BuildOptions): Promise<BuildResult> {
+  const startTime = Date.now();
+  const label = options.label ?? 'Build';
+  const source = label.toUpperCase();
+
+  logger.info(`Running ${label.toLowerCase()} command`, { command, cwd: options.cwd }, source);
+
+  return new Promise((resolve) => {
+    let output = '';
+    let timedOut = false;
+    let settled = false;
+
+    const append = (data: Buffer) => {
+      output += data.toString();
+      if (output.length > MAX_BUILD_OUTPUT) {
+        output = output.slice(-MAX_BUILD_OUTPUT);
+      }
+    };
+
+    const finish = (exitCode: number | null, error?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
+      process.off('exit', killBuild);
+
+      if (error) {
+        output += `${output && !output.endsWith('\n') ? '\n' : ''}${error}`;
+      }
+
+      const result: BuildResult = {
+        success: exitCode === 0 && !timedOut,
+        exitCode,
+        output: output.trimEnd(),
+        duration: Date.now() - startTime,
+        timedOut
+      };
+
+      if (result.success) {
+        logger.info(`${label} succeeded`, { command, duration_ms: result.duration }, source);
+      } else {
+        logger.error(`${label} failed`, {
+          command,
+          exitCode,
+          timedOut,
+          duration_ms: result.duration,
+          output: result.output
+        }, source);
+      }
+
+      resolve(result);
+    };
+
+    // In its own process group, so a timeout kills the commands the shell started too
+    const detached = process.platform !== 'win32';
+    const child = spawn(command, [], {
+      cwd: options.cwd,
+      env: options.env,
+      shell: true,
+      detached,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    const killBuild = () => killProcessTree(child.pid, detached, () => child.kill('SIGKILL'));
+
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      killBuild();
+      finish(null, `${label} timed out after ${options.timeout}ms`);
+    }, options.timeout);
+
+    const onAbort = () => {
+      killBuild();
+      finish(null, `${label} was cancelled`);
+    };
+
+    // Being detached, the build would otherwise outlive a proxy that exits or crashes mid-build
+    process.on('exit', killBuild);
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+
+    child.on('error', (error: Error) => {
+      finish(null, `Failed to run ${label.toLowerCase()} command: ${error.message}`);
+    });
+
+    child.on('close', (code: number | null) => {
+      finish(code);
+    });
+  });
+}
+
+/**
+ * Kill a process and everything in its process group, falling back to the process alone
+ */
+function killProcessTree(pid: number | undefined, ownGroup: boolean, killProcess: () => void): void {
+  if (pid !== undefined && ownGroup) {
+    try {
+      process.kill(-pid, 'SIGKILL');
+      return;
+    } catch {
+      // The group is already gone or can't be signalled
+    }
+  }
+  killProcess();
+}
@@ -9,7 +9,7 @@
  * - Add restart_server tool to the child's tool capabilities
  * - Append "-dev" suffix to server name and version for clear identification
  * - Preserve all existing tools, resources, and prompts from the child
- * - Enable tool list change notifications for restart events
+ * - Enable list change notifications for restart events
  * - Maintain protocol version compatibility
  */
 
@@ -177,9 +177,10 @@ export class CapabilityAugmenter {
       ...originalCapabilities,
       // Override with proxy enhancements (primarily tools with restart_server)
       ...proxyCapabilities,
-      // Explicitly preserve specific child capabilities that shouldn't be overridden
-      ...(originalCapabilities.resources && { resources: originalCapabilities.resources }),
-      ...(originalCapabilities.prompts && { prompts: originalCapabilities.prompts }),
+      // Explicitly preserve specific child capabilities that shouldn't be overridden.
+      // Restarts can change resources and prompts too, so their list changes are announced.
+      ...(originalCapabilities.resources && { resources: { ...originalCapabilities.resources, listChanged: true } }),
+      ...(originalCapabilities.prompts && { prompts: { ...originalCapabilities.prompts, listChanged: true } }),
       ...(originalCapabilities.logging && { logging: originalCapabilities.logging }),
       ...(originalCapabilities.completions && { completions: originalCapabilities.completions }),
       ...(originalCapabilities.experimental && { experimental: originalCapabilities.experimental })
@@ -292,7 +293,7 @@ export class CapabilityAugmenter {
    */
   private combineInstructions(childInstructions?: string): string | undefined {
     const proxyInstructions = 
-      'This server is running through mcpdev-proxy, which provides development capabilities. ' +
+      'This server is running through reloaderoo, which provides development capabilities. ' +
       `Use the ${PROXY_TOOLS.RESTART_SERVER} tool to restart the underlying server with optional configuration updates.`;
 
     if (!childInstructions) {
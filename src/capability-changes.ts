@@ -0,0 +1,124 @@
+/**
+ * CapabilityChanges - Compares the tools, prompts and resources a child offered before
+ * and after a restart, so the restart result can report what changed and clients are
+ * only told to re-list the categories that did.
+ */
+
+import { diffJson, formatDifferences, type JsonDifference } from './json-diff.js';
+import type { CapabilitySnapshot } from './capability-snapshot.js';
+
+/** The lists a child server offers */
+export type CapabilityCatalog = Pick<CapabilitySnapshot, 'tools' | 'prompts' | 'resources' | 'resourceTemplates'>;
+
+/** One of the lists in a catalog */
+export type CapabilityCategory = keyof CapabilityCatalog;
+
+/** An entry whose definition changed, with the differences relative to the entry */
+export interface ChangedEntry {
+  name: string;
+  differences: JsonDifference[];
+}
+
+/** Changes to one list, with entries identified by name (or URI) */
+export interface CategoryChanges {
+  added: string[];
+  removed: string[];
+  changed: ChangedEntry[];
+}
+
+/** Changes to every list of a catalog */
+export type CapabilityChanges = Record<CapabilityCategory, CategoryChanges>;
+
+/** Field identifying the entries of each list */
+const IDENTIFYING_FIELDS: Record<CapabilityCategory, string> = {
+  tools: 'name',
+  prompts: 'name',
+  resources: 'uri',
+  resourceTemplates: 'uriTemplate'
+};
+
+const CATEGORY_LABELS: Record<CapabilityCategory, string> = {
+  tools: 'Tools',
+  prompts: 'Prompts',
+  resources: 'Resources',
+  resourceTemplates: 'Resource templates'
+};
+
+/**
+ * Compare two catalogs list by list
+ */
+export function diffCatalogs(previous: CapabilityCatalog, current: CapabilityCatalog): CapabilityChanges {
+  const changes = {} as CapabilityChanges;
+  for (const category of Object.keys(IDENTIFYING_FIELDS) as CapabilityCategory[]) {
+    changes[category] = diffEntries(
+      previous[category] as unknown as Array<Record<string, unknown>>,
+      current[category] as unknown as Array<Record<string, unknown>>,
+      IDENTIFYING_FIELDS[category]
+    );
+  }
+  return changes;
+}
+
+/**
+ * Check whether a list changed at all
+ */
+export function hasChanges(changes: CategoryChanges): boolean {
+  return changes.added.length > 0 || changes.removed.length > 0 || changes.changed.length > 0;
+}
+
+/**
+ * Describe the changes for the restart result: added (+), removed (-) and changed (~)
+ * entries per list, with the definition differences of changed entries
+ */
+export function formatCapabilityChanges(changes: CapabilityChanges): string {
+  const sections: string[] = [];
+
+  for (const category of Object.keys(CATEGORY_LABELS) as CapabilityCategory[]) {
+    const { added, removed, changed } = changes[category];
+    if (!hasChanges(changes[category])) continue;
+
+    const counts = [
+      added.length > 0 && `${added.length} added`,
+      removed.length > 0 && `${removed.length} removed`,
+      changed.length > 0 && `${changed.length} changed`
+    ].filter(Boolean).join(', ');
+
+    const lines = [`${CATEGORY_LABELS[category]}: ${counts}`];
+    lines.push(...added.map(name => `  + ${name}`));
+    lines.push(...removed.map(name => `  - ${name}`));
+    for (const { name, differences } of changed) {
+      lines.push(`  ~ ${name}`);
+      lines.push(...formatDifferences(differences).split('\n').map(line => `      ${line}`));
+    }
+    sections.push(lines.join('\n'));
+  }
+
+  return sections.length > 0
+    ? sections.join('\n')
+    : 'No tools, prompts or resources changed.';
+}
+
+function diffEntries(
+  previous: Array<Record<string, unknown>>,
+  current: Array<Record<string, unknown>>,
+  key: string
+): CategoryChanges {
+  const previousByKey = new Map(previous.map(entry => [String(entry[key]), entry]));
+  const currentByKey = new Map(current.map(entry => [String(entry[key]), entry]));
+
+  const changed: ChangedEntry[] = [];
+  for (const [name, entry] of currentByKey) {
+    const before = previousByKey.get(name);
+    if (before === undefined) continue;
+    const differences = diffJson(before, entry);
+    if (differences.length > 0) {
+      changed.push({ name, differences });
+    }
+  }
+
+  return {
+    added: [...currentByKey.keys()].filter(name => !previousByKey.has(name)).sort(),
+    removed: [...previousByKey.keys()].filter(name => !currentByKey.has(name)).sort(),
+    changed: changed.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * CapabilityLint - Static checks of the metadata a server exposes: names, descriptions
+ * and schemas of its tools, prompts and resources. Each finding carries a rule code and
+ * severity, so CI can fail on errors while warnings point at things worth tidying.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { CapabilityCatalog } from './capability-changes.js';
+import { LINT_DEFAULTS, PROXY_TOOLS } from './constants.js';
+
+export type LintSeverity = 'error' | 'warning';
+
+/** Rule codes, with the severity of their findings and what they check */
+export const LINT_RULES = {
+  'duplicate-name': { severity: 'error', description: 'Two entries of a list share a name (or URI)' },
+  'invalid-name': { severity: 'error', description: 'Tool name is not 1-128 letters, digits, _, - or .' },
+  'reserved-name': { severity: 'error', description: `Tool is named ${PROXY_TOOLS.RESTART_SERVER}, which the proxy provides itself` },
+  'missing-description': { severity: 'warning', description: 'Entry has no description' },
+  'description-too-long': { severity: 'warning', description: `Description is longer than ${LINT_DEFAULTS.MAX_DESCRIPTION_LENGTH} characters` },
+  'schema-not-object': { severity: 'error', description: 'Tool inputSchema or outputSchema does not have type "object"' },
+  'unused-required': { severity: 'error', description: 'A required key is not among the schema\'s properties' },
+  'unresolved-ref': { severity: 'error', description: 'A $ref does not resolve within the schema' }
+} as const satisfies Record<string, { severity: LintSeverity; description: string }>;
+
+export type LintRule = keyof typeof LINT_RULES;
+
+/** Kinds of entry a finding can be about */
+export type LintTargetKind = 'tool' | 'prompt' | 'resource' | 'resourceTemplate';
+
+/** A problem found in the server's metadata */
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  kind: LintTargetKind;
+  /** Name of the entry, or URI (template) for resources */
+  name: string;
+  /** JSON pointer into the entry, for findings within a schema */
+  path?: string;
+  message: string;
+}
+
+/** Result of linting a catalog */
+export interface LintReport {
+  findings: LintFinding[];
+  errors: number;
+  warnings: number;
+}
+
+/** Keywords whose value is a subschema */
+const SUBSCHEMA_KEYWORDS = [
+  'items', 'additionalItems', 'additionalProperties', 'contains', 'propertyNames',
+  'not', 'if', 'then', 'else', 'unevaluatedItems', 'unevaluatedProperties'
+];
+
+/** Keywords whose value is a list of subschemas */
+const SUBSCHEMA_LIST_KEYWORDS = ['items', 'prefixItems', 'allOf', 'anyOf', 'oneOf'];
+
+/** Keywords whose value maps names to subschemas */
+const SUBSCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', 'dependentSchemas', '$defs', 'definitions'];
+
+/**
+ * Check everything a server offers against the lint rules
+ */
+export function lintCapabilities(catalog: CapabilityCatalog): LintReport {
+  const findings: LintFinding[] = [];
+  const add = (rule: LintRule, kind: LintTargetKind, name: string, message: string, path?: string) => {
+    findings.push({ rule, severity: LINT_RULES[rule].severity, kind, name, ...(path !== undefined && { path }), message });
+  };
+
+  const lintEntries = <T extends { description?: string | undefined }>(
+    kind: LintTargetKind,
+    entries: T[],
+    nameOf: (entry: T) => string
+  ) => {
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      const name = nameOf(entry);
+      if (seen.has(name)) {
+        add('duplicate-name', kind, name, `${name} is listed more than once`);
+      }
+      seen.add(name);
+
+      if (!entry.description?.trim()) {
+        add('missing-description', kind, name, `${name} has no description`);
+      } else if (entry.description.length > LINT_DEFAULTS.MAX_DESCRIPTION_LENGTH) {
+        add('description-too-long', kind, name,
+          `Description of ${name} is ${entry.description.length} characters long; keep it under ${LINT_DEFAULTS.MAX_DESCRIPTION_LENGTH}`);
+      }
+    }
+  };
+
+  lintEntries('tool', catalog.tools, tool => tool.name);
+  lintEntries('prompt', catalog.prompts, prompt => prompt.name);
+  lintEntries('resource', catalog.resources, resource => resource.uri);
+  lintEntries('resourceTemplate', catalog.resourceTemplates, template => template.uriTemplate);
+
+  for (const tool of catalog.tools) {
+    if (!LINT_DEFAULTS.TOOL_NAME_PATTERN.test(tool.name)) {
+      add('invalid-name', 'tool', tool.name, `${JSON.stringify(tool.name)} is not 1-128 letters, digits, underscores, hyphens or dots`);
+    }
+    if (tool.name === PROXY_TOOLS.RESTART_SERVER) {
+      add('reserved-name', 'tool', tool.name,
+        `${tool.name} is the proxy's own tool; calls through reloaderoo never reach the server's tool`);
+    }
+    for (const kind of ['inputSchema', 'outputSchema'] as const) {
+      if (tool[kind] !== undefined) {
+        lintToolSchema(tool, kind, add);
+      }
+    }
+  }
+
+  // Group the findings by entry, keeping the rule order within each
+  const kindOrder: LintTargetKind[] = ['tool', 'prompt', 'resource', 'resourceTemplate'];
+  findings.sort((a, b) => kindOrder.indexOf(a.kind) - kindOrder.indexOf(b.kind)
+    || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  return {
+    findings,
+    errors: findings.filter(finding => finding.severity === 'error').length,
+    warnings: findings.filter(finding => finding.severity === 'warning').length
+  };
+}
+
+function lintToolSchema(
+  tool: Tool,
+  kind: 'inputSchema' | 'outputSchema',
+  add: (rule: LintRule, kind: LintTargetKind, name: string, message: string, path?: string) => void
+): void {
+  const root: unknown = tool[kind];
+  // Servers listed leniently can send anything here, including null
+  if (!isPlainObject(root)) {
+    add('schema-not-object', 'tool', tool.name, `${kind} must be a schema object, not ${root === null ? 'null' : Array.isArray(root) ? 'an array' : typeof root}`, `/${kind}`);
+    return;
+  }
+  if (root['type'] !== 'object') {
+    add('schema-not-object', 'tool', tool.name, `${kind} must have type "object"`, `/${kind}`);
+  }
+
+  walkSchema(root, `/${kind}`, (schema, path) => {
+    const { required, properties, patternProperties } = schema;
+    if (Array.isArray(required) && isPlainObject(properties) && patternProperties === undefined) {
+      for (const key of required) {
+        if (typeof key === 'string' && !(key in properties)) {
+          add('unused-required', 'tool', tool.name, `Required key ${JSON.stringify(key)} is not among the properties`, path);
+        }
+      }
+    }
+
+    const ref = schema['$ref'];
+    if (typeof ref === 'string' && !resolvesRef(root, ref)) {
+      add('unresolved-ref', 'tool', tool.name, `$ref ${JSON.stringify(ref)} does not resolve within the schema`, path);
+    }
+  });
+}
+
+/**
+ * Visit a schema and each of its subschemas with their JSON pointers
+ */
+function walkSchema(
+  schema: unknown,
+  path: string,
+  visit: (schema: Record<string, unknown>, path: string) => void
+): void {
+  if (!isPlainObject(schema)) return;
+  visit(schema, path);
+
+  for (const keyword of SUBSCHEMA_KEYWORDS) {
+    walkSchema(schema[keyword], `${path}/${keyword}`, visit);
+  }
+  for (const keyword of SUBSCHEMA_LIST_KEYWORDS) {
+    const list = schema[keyword];
+    if (Array.isArray(list)) {
+      list.forEach((item, i) => walkSchema(item, `${path}/${keyword}/${i}`, visit));
+    }
+  }
+  for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+    const map = schema[keyword];
+    if (isPlainObject(map)) {
+      for (const [name, item] of Object.entries(map)) {
+        walkSchema(item, `${path}/${keyword}/${name.replace(/~/g, '~0').replace(/\//g, '~1')}`, visit);
+      }
+    }
+  }
+}
+
+/**
+ * Check that a $ref points into the same schema: a JSON pointer fragment, or a
+ * plain-name fragment declared with $anchor. Refs to other documents can't be
+ * resolved by clients, which only have the tool's schema.
+ */
+function resolvesRef(root: Record<string, unknown>, ref: string): boolean {
+  if (!ref.startsWith('#')) return false;
+
+  let fragment: string;
+  try {
+    fragment = decodeURIComponent(ref.slice(1));
+  } catch {
+    return false;
+  }
+
+  if (fragment === '') return true;
+
+  if (fragment.startsWith('/')) {
+    let current: unknown = root;
+    for (const segment of fragment.slice(1).split('/').map(s => s.replace(/~1/g, '/').replace(/~0/g, '~'))) {
+      if (typeof current !== 'object' || current === null || !(segment in current)) {
+        return false;
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+    return true;
+  }
+
+  let found = false;
+  walkSchema(root, '', schema => {
+    found ||= schema['$anchor'] === fragment || schema['$id'] === `#${fragment}`;
+  });
+  return found;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,216 @@
+/**
+ * CapabilitySnapshot - A normalized record of everything a server offers: its info,
+ * capabilities, tools with their schemas, resources, resource templates and prompts.
+ * Snapshots are serialized with sorted keys and lists, so committing one next to the
+ * server code shows every schema change in review, and CI can check it is up to date.
+ */
+
+import { readFileSync } from 'fs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  ErrorCode,
+  McpError,
+  ResultSchema,
+  type Implementation,
+  type ListToolsResult,
+  type Prompt,
+  type Resource,
+  type ResourceTemplate,
+  type ServerCapabilities,
+  type Tool
+} from '@modelcontextprotocol/sdk/types.js';
+import { diffJson, type JsonDifference } from './json-diff.js';
+
+/** Everything a server offers, as captured by takeSnapshot */
+export interface CapabilitySnapshot {
+  serverInfo: Implementation;
+  capabilities: ServerCapabilities;
+  instructions?: string;
+  tools: Tool[];
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+  prompts: Prompt[];
+}
+
+/** Maximum number of pages followed per list, in case a server keeps returning cursors */
+const MAX_PAGES = 100;
+
+/**
+ * Capture a snapshot of a connected server. Lists are only requested for the
+ * capabilities the server advertises, and every page is followed.
+ */
+export async function takeSnapshot(client: Client): Promise<CapabilitySnapshot> {
+  const serverInfo = client.getServerVersion();
+  if (!serverInfo) {
+    throw new Error('Client is not connected');
+  }
+  const capabilities = client.getServerCapabilities() ?? {};
+  const instructions = client.getInstructions();
+
+  return normalizeSnapshot({
+    serverInfo,
+    capabilities,
+    ...(instructions && { instructions }),
+    tools: capabilities.tools ? await listTools(client) : [],
+    ...await listPromptsAndResources(client)
+  });
+}
+
+/**
+ * List a connected server's tools, following every page. Only the shape of the list is
+ * checked, so tools that break the spec's schema rules (such as an inputSchema without
+ * type "object") are still listed and can be reported.
+ */
+export function listTools(client: Client): Promise<Tool[]> {
+  return listAll(async (cursor) => {
+    const result = await client.request({ method: 'tools/list', ...(cursor && { params: cursor }) }, ResultSchema);
+    if (!Array.isArray(result['tools'])) {
+      throw new Error('tools/list result has no list of tools');
+    }
+    return result as ListToolsResult;
+  }, result => result.tools);
+}
+
+/** The lists listPromptsAndResources requests */
+export type OptionalList = 'resources' | 'resourceTemplates' | 'prompts';
+
+/**
+ * List a connected server's resources, resource templates and prompts, following every page.
+ * Lists are only requested for the capabilities the server advertises. With onError, a list
+ * that fails is reported to it and comes back empty instead of failing the whole call.
+ */
+export async function listPromptsAndResources(
+  client: Client,
+  onError?: (list: OptionalList, error: unknown) => void
+): Promise<Pick<CapabilitySnapshot, OptionalList>> {
+  const capabilities = client.getServerCapabilities() ?? {};
+  const list = async <T>(name: OptionalList, fetch: () => Promise<T[]>): Promise<T[]> => {
+    try {
+      return await fetch();
+    } catch (error) {
+      if (!onError) throw error;
+      onError(name, error);
+      return [];
+    }
+  };
+  return {
+    resources: capabilities.resources
+      ? await list('resources', () => listAll(cursor => client.listResources(cursor), result => result.resources))
+      : [],
+    resourceTemplates: capabilities.resources
+      ? await list('resourceTemplates', () => listResourceTemplates(client))
+      : [],
+    prompts: capabilities.prompts
+      ? await list('prompts', () => listAll(cursor => client.listPrompts(cursor), result => result.prompts))
+      : []
+  };
+}
+
+/**
+ * Sort a snapshot's lists by their identifying field and every object's keys
+ */
+export function normalizeSnapshot(snapshot: CapabilitySnapshot): CapabilitySnapshot {
+  return sortKeys({
+    ...snapshot,
+    tools: sortBy(snapshot.tools, 'name'),
+    resources: sortBy(snapshot.resources, 'uri'),
+    resourceTemplates: sortBy(snapshot.resourceTemplates, 'uriTemplate'),
+    prompts: sortBy(snapshot.prompts, 'name')
+  }) as CapabilitySnapshot;
+}
+
+/**
+ * Serialize a snapshot as written to a snapshot file
+ */
+export function serializeSnapshot(snapshot: CapabilitySnapshot): string {
+  return JSON.stringify(normalizeSnapshot(snapshot), null, 2) + '\n';
+}
+
+/**
+ * Read a snapshot file written with serializeSnapshot
+ */
+export function loadSnapshot(filePath: string): CapabilitySnapshot {
+  let snapshot: unknown;
+  try {
+    snapshot = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read snapshot ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const lists = ['tools', 'resources', 'resourceTemplates', 'prompts'];
+  if (typeof snapshot !== 'object' || snapshot === null
+    || lists.some(list => !Array.isArray((snapshot as Record<string, unknown>)[list]))) {
+    throw new Error(`${filePath} is not a capability snapshot`);
+  }
+  return snapshot as CapabilitySnapshot;
+}
+
+/**
+ * List the differences between an expected and an actual snapshot.
+ * List entries are addressed by name (or URI) instead of position, e.g. /tools/echo/inputSchema.
+ */
+export function diffSnapshots(expected: CapabilitySnapshot, actual: CapabilitySnapshot): JsonDifference[] {
+  return diffJson(keyLists(expected), keyLists(actual));
+}
+
+/**
+ * List resource templates; servers with resources don't have to implement resources/templates/list
+ */
+async function listResourceTemplates(client: Client): Promise<ResourceTemplate[]> {
+  try {
+    return await listAll(cursor => client.listResourceTemplates(cursor), result => result.resourceTemplates);
+  } catch (error) {
+    if (error instanceof McpError && error.code === ErrorCode.MethodNotFound) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function listAll<R extends { nextCursor?: string | undefined }, T>(
+  fetchPage: (params: { cursor: string } | undefined) => Promise<R>,
+  items: (result: R) => T[]
+): Promise<T[]> {
+  const all: T[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await fetchPage(cursor === undefined ? undefined : { cursor });
+    all.push(...items(result));
+    cursor = result.nextCursor;
+    if (cursor === undefined) {
+      return all;
+    }
+  }
+  throw new Error(`Server returned more than ${MAX_PAGES} pages`);
+}
+
+function keyLists(snapshot: CapabilitySnapshot): Record<string, unknown> {
+  return {
+    ...snapshot,
+    tools: keyBy(snapshot.tools, 'name'),
+    resources: keyBy(snapshot.resources, 'uri'),
+    resourceTemplates: keyBy(snapshot.resourceTemplates, 'uriTemplate'),
+    prompts: keyBy(snapshot.prompts, 'name')
+  };
+}
+
+function sortBy<T>(items: T[], key: keyof T): T[] {
+  // Plain code point order, so the file doesn't depend on the machine's locale
+  return [...items].sort((a, b) => (String(a[key]) < String(b[key]) ? -1 : String(a[key]) > String(b[key]) ? 1 : 0));
+}
+
+function keyBy<T>(items: T[], key: keyof T): Record<string, T> {
+  return Object.fromEntries(items.map(item => [String(item[key]), item]));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,111 @@
+/**
+ * ChildProcessTransport - MCP client transport over the stdio pipes of a child process
+ * spawned by ProcessManager. The process lifecycle stays with ProcessManager: closing the
+ * transport only detaches from the pipes and never kills the child.
+ */
+
+import type { ChildProcess } from 'child_process';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ReadBuffer, serializeMessage } from '@modelcontextprotocol/sdk/shared/stdio.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Newline-delimited JSON-RPC transport over an already running child process.
+ */
+export class ChildProcessTransport implements Transport {
+  private readonly childProcess: ChildProcess;
+  private readonly readBuffer = new ReadBuffer();
+  private started = false;
+  private closed = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(childProcess: ChildProcess) {
+    this.childProcess = childProcess;
+  }
+
+  /**
+   * Start reading messages from the child's stdout
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      throw new Error('ChildProcessTransport already started');
+    }
+
+    const { stdin, stdout } = this.childProcess;
+    if (!stdin || !stdout) {
+      throw new Error('Child process was not spawned with piped stdio');
+    }
+
+    this.started = true;
+    stdout.on('data', this.handleData);
+    stdout.on('error', this.handleError);
+    stdin.on('error', this.handleError);
+    this.childProcess.on('close', this.handleClose);
+  }
+
+  /**
+   * Write a message to the child's stdin, waiting for the pipe to drain if needed
+   */
+  send(message: JSONRPCMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const stdin = this.childProcess.stdin;
+      if (this.closed || !stdin || stdin.destroyed) {
+        reject(new Error('Child process is not accepting messages'));
+        return;
+      }
+
+      if (stdin.write(serializeMessage(message))) {
+        resolve();
+      } else {
+        stdin.once('drain', resolve);
+      }
+    });
+  }
+
+  /**
+   * Detach from the child's pipes
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.detach();
+    this.onclose?.();
+  }
+
+  private readonly handleData = (chunk: Buffer): void => {
+    this.readBuffer.append(chunk);
+
+    while (true) {
+      try {
+        const message = this.readBuffer.readMessage();
+        if (message === null) {
+          break;
+        }
+        this.onmessage?.(message);
+      } catch (error) {
+        this.onerror?.(error as Error);
+      }
+    }
+  };
+
+  private readonly handleError = (error: Error): void => {
+    this.onerror?.(error);
+  };
+
+  private readonly handleClose = (): void => {
+    if (this.closed) return;
+    this.detach();
+    this.onclose?.();
+  };
+
+  private detach(): void {
+    this.closed = true;
+    this.childProcess.stdout?.off('data', this.handleData);
+    this.childProcess.stdout?.off('error', this.handleError);
+    this.childProcess.stdin?.off('error', this.handleError);
+    this.childProcess.off('close', this.handleClose);
+    this.readBuffer.clear();
+  }
+}
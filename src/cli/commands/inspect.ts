@@ -5,15 +5,168 @@
  */
 
 import { Command } from 'commander';
+import { writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
 // Child process spawning is handled by StdioClientTransport
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { connectRemoteClient, closeRemoteClient, isHttpUrl } from '../../remote-client-transport.js';
+import { connectClient, getProtocolVersion } from '../../protocol-version.js';
+import { CallToolResultSchema, type CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  diffSnapshots,
+  listTools,
+  loadSnapshot,
+  serializeSnapshot,
+  takeSnapshot,
+  type CapabilitySnapshot
+} from '../../capability-snapshot.js';
+import { formatDifferences, type JsonDifference } from '../../json-diff.js';
+import { InspectShell } from '../inspect-shell.js';
+import { SchemaValidator, type SchemaError } from '../../schema-validator.js';
+import { lintCapabilities } from '../../capability-lint.js';
+import { loadScript, runScript } from '../../session-script.js';
+import { INSPECT_SHELL_DEFAULTS } from '../../constants.js';
+
+/** Options that select the server an inspection connects to */
+export interface InspectionTargetOptions {
+  workingDir?: string;
+  childUrl?: string;
+}
+
+/**
+ * Check that either a child command or a valid --child-url was given, exiting with a JSON error otherwise
+ */
+export function validateInspectionTarget(childCommandArr: string[] | undefined, options: InspectionTargetOptions): void {
+  const childUrl = options.childUrl;
+  const hasChildCommand = Array.isArray(childCommandArr) && childCommandArr.length > 0;
+  if (childUrl !== undefined) {
+    if (hasChildCommand) {
+      console.error(JSON.stringify({ error: 'Use either --child-url or a child command, not both' }, null, 2));
+      process.exit(1);
+    }
+    if (!isHttpUrl(childUrl)) {
+      console.error(JSON.stringify({ error: `Invalid child URL: ${childUrl}. Must be an http or https URL` }, null, 2));
+      process.exit(1);
+    }
+  } else if (!hasChildCommand) {
+    console.error(JSON.stringify({ error: 'Child command is required. Example: node server.js' }, null, 2));
+    process.exit(1);
+  }
+}
+
+/**
+ * Connect a client to the server selected by validateInspectionTarget
+ */
+export async function connectInspectionClient(
+  client: Client,
+  childCommandArr: string[] | undefined,
+  options: InspectionTargetOptions
+): Promise<void> {
+  if (options.childUrl !== undefined) {
+    // Connect to a server running as an HTTP service
+    await connectRemoteClient(client, options.childUrl);
+    return;
+  }
+
+  // Create MCP client transport with stdio
+  const transport = new StdioClientTransport({
+    command: childCommandArr![0]!,
+    args: childCommandArr!.slice(1),
+    cwd: options.workingDir || process.cwd(),
+    env: process.env as Record<string, string>
+  });
+
+  // Connect the client
+  await connectClient(client, transport);
+}
+
+/**
+ * Close a client connected with connectInspectionClient, ignoring errors
+ */
+export async function closeInspectionClient(client: Client, options: InspectionTargetOptions): Promise<void> {
+  try {
+    await (options.childUrl !== undefined ? closeRemoteClient(client) : client.close());
+  } catch {
+    // Ignore cleanup errors
+  }
+}
+
+/**
+ * Connect and close callbacks for commands that reconnect to the server during a session
+ */
+function createInspectionSession(childCommandArr: string[] | undefined, options: InspectionTargetOptions) {
+  return {
+    connect: async (): Promise<Client> => {
+      const client = new Client({ name: 'reloaderoo-inspector', version: '1.0.0' }, { capabilities: {} });
+      await connectInspectionClient(client, childCommandArr, options);
+      return client;
+    },
+    close: (client: Client) => closeInspectionClient(client, options)
+  };
+}
+
+/**
+ * Print an inspection result as JSON
+ */
+function printResult(result: unknown): number {
+  console.log(JSON.stringify(result, null, 2));
+  return 0;
+}
+
+/**
+ * Print a tool result, and report where it violates the tool's outputSchema
+ */
+function reportToolCall({ name, result, outputErrors }: { name: string; result: CallToolResult; outputErrors: SchemaError[] }): number {
+  printResult(result);
+  if (outputErrors.length === 0) {
+    return 0;
+  }
+  console.error(JSON.stringify({
+    error: `Tool ${name} returned a result that violates its outputSchema`,
+    errors: outputErrors
+  }, null, 2));
+  return 1;
+}
+
+/** Outcome of the snapshot command */
+type SnapshotOutcome =
+  | { snapshot: CapabilitySnapshot; output?: string }
+  | { snapshot: CapabilitySnapshot; check: string; differences: JsonDifference[] };
+
+/**
+ * Print the snapshot, confirm it was written, or report how the server differs from the checked snapshot
+ */
+function reportSnapshot(outcome: SnapshotOutcome): number {
+  if ('check' in outcome) {
+    if (outcome.differences.length === 0) {
+      console.log(`Server matches snapshot ${outcome.check}`);
+      return 0;
+    }
+    console.log(`Server does not match snapshot ${outcome.check} (- snapshot, + server):`);
+    console.log(formatDifferences(outcome.differences));
+    console.log(`\nRun 'reloaderoo inspect snapshot --output ${outcome.check}' to update the snapshot.`);
+    return 1;
+  }
+
+  const { snapshot, output } = outcome;
+  if (output === undefined) {
+    process.stdout.write(serializeSnapshot(snapshot));
+  } else {
+    console.log(`Snapshot written to ${output}: ${snapshot.tools.length} tools, ${snapshot.resources.length} resources, `
+      + `${snapshot.resourceTemplates.length} resource templates, ${snapshot.prompts.length} prompts`);
+  }
+  return 0;
+}
 
 /**
- * Create a standard inspection action handler
+ * Create a standard inspection action handler.
+ * report outputs the operation's result and returns the exit code.
  */
 function createInspectionAction<T>(
-  operation: (client: Client, ...args: any[]) => Promise<T>
+  operation: (client: Client, ...args: any[]) => Promise<T>,
+  report: (result: T) => number = printResult
 ) {
   return async (...actionArgs: any[]) => {
     // Commander passes args in order: [named_args..., variadic_array, options, command]
@@ -24,18 +177,11 @@ function createInspectionAction<T>(
     // Whatever remains are the named arguments for the specific operation (e.g., <name>, <uri>)
     const operationArgs = actionArgs;
 
-    // --- Validation of the child command ---
-    if (!Array.isArray(childCommandArr) || childCommandArr.length === 0) {
-      console.error(JSON.stringify({ error: 'Child command is required. Example: node server.js' }, null, 2));
-      process.exit(1);
-    }
-
-    const childInfo = {
-      command: childCommandArr[0]!,
-      args: childCommandArr.slice(1)
-    };
+    // --- Validation of the child command or URL ---
+    validateInspectionTarget(childCommandArr, options);
 
     let client: Client | undefined;
+    let exitCode = 0;
 
     // Set a timeout for the entire operation
     const timeout = parseInt(options.timeout || '30000', 10);
@@ -45,14 +191,6 @@ function createInspectionAction<T>(
 
     try {
       const operationPromise = (async () => {
-        // Create MCP client transport with stdio
-        const transport = new StdioClientTransport({
-          command: childInfo.command,
-          args: childInfo.args,
-          cwd: options.workingDir || process.cwd(),
-          env: process.env as Record<string, string>
-        });
-
         client = new Client({
           name: 'reloaderoo-inspector',
           version: '1.0.0'
@@ -60,14 +198,13 @@ function createInspectionAction<T>(
           capabilities: {}
         });
 
-        // Connect the client
-        await client.connect(transport);
+        await connectInspectionClient(client, childCommandArr, options);
 
         // Execute the operation, passing the client, its specific arguments, and the options object
         const result = await operation(client, ...operationArgs, options);
 
-        // Output the raw result
-        console.log(JSON.stringify(result, null, 2));
+        // Output the result
+        exitCode = report(result);
       })();
 
       await Promise.race([operationPromise, timeoutPromise]);
@@ -81,14 +218,10 @@ function createInspectionAction<T>(
     } finally {
       // Cleanup
       if (client) {
-        try {
-          await client.close();
-        } catch {
-          // Ignore cleanup errors
-        }
+        await closeInspectionClient(client, options);
       }
       // Transport cleanup is handled by client.close()
-      process.exit(0);
+      process.exit(exitCode);
     }
   };
 }
@@ -104,6 +237,12 @@ Examples:
   $ reloaderoo inspect list-tools -- node server.js
   $ reloaderoo inspect call-tool get_weather --params '{"location": "London"}' -- node server.js
   $ reloaderoo inspect server-info -- node server.js
+  $ reloaderoo inspect list-tools --child-url http://localhost:8080/mcp
+  $ reloaderoo inspect snapshot --output mcp-snapshot.json -- node server.js
+  $ reloaderoo inspect snapshot --check mcp-snapshot.json -- node server.js
+  $ reloaderoo inspect lint -- node server.js
+  $ reloaderoo inspect shell -- node server.js
+  $ reloaderoo inspect run checks.yaml -- node server.js
     `);
 
   // Common options and argument for all inspect subcommands
@@ -111,6 +250,7 @@ Examples:
     return cmd
       .option('-w, --working-dir <dir>', 'Working directory for the child process')
       .option('-t, --timeout <ms>', 'Operation timeout in milliseconds', '30000')
+      .option('--child-url <url>', 'Connect to a server running as an HTTP service instead of spawning a child command')
       .argument('[child-command...]', 'The child command and its arguments to execute');
   };
 
@@ -121,7 +261,7 @@ Examples:
       .action(createInspectionAction(async (client: Client) => {
         const capabilities = client.getServerCapabilities();
         return {
-          protocolVersion: '2024-11-05',
+          protocolVersion: getProtocolVersion(client),
           capabilities
         };
       }))
@@ -150,11 +290,18 @@ Examples:
             throw new Error(`Invalid JSON parameters: ${error instanceof Error ? error.message : String(error)}`);
           }
         }
-        return client.callTool({
-          name,
-          arguments: params as Record<string, unknown> | undefined
-        });
-      }))
+        // The tool's outputSchema, if it declares one, is checked below
+        const tool = client.getServerCapabilities()?.tools
+          ? (await listTools(client)).find(tool => tool.name === name)
+          : undefined;
+        // Sent as a plain request so a violating result is still printed
+        const result = await client.request({
+          method: 'tools/call',
+          params: { name, arguments: params as Record<string, unknown> | undefined }
+        }, CallToolResultSchema);
+        const outputErrors = tool ? new SchemaValidator().validateStructuredContent(tool, result) : [];
+        return { name, result, outputErrors };
+      }, reportToolCall))
   );
 
   // List resources command
@@ -207,6 +354,38 @@ Examples:
       }))
   );
 
+  // Snapshot command
+  addCommonOptions(
+    inspect.command('snapshot')
+      .description('Capture tools, resources, resource templates, prompts and server info as normalized JSON')
+      .option('-o, --output <file>', 'Write the snapshot to a file instead of stdout')
+      .option('--check <file>', 'Compare the server with a snapshot file; exits with code 1 and prints a diff if they differ')
+      .action(createInspectionAction(async (client: Client, options: any): Promise<SnapshotOutcome> => {
+        const expected = options.check ? loadSnapshot(options.check) : undefined;
+        const snapshot = await takeSnapshot(client);
+
+        if (expected) {
+          return { snapshot, check: options.check, differences: diffSnapshots(expected, snapshot) };
+        }
+        if (options.output) {
+          writeFileSync(options.output, serializeSnapshot(snapshot), 'utf8');
+        }
+        return { snapshot, ...(options.output && { output: options.output as string }) };
+      }, reportSnapshot))
+  );
+
+  // Lint command - static checks of the server's metadata
+  addCommonOptions(
+    inspect.command('lint')
+      .description('Check tool, prompt and resource names, descriptions and schemas; exits with code 1 on errors')
+      .action(createInspectionAction(async (client: Client) => {
+        return lintCapabilities(await takeSnapshot(client));
+      }, (report) => {
+        printResult(report);
+        return report.errors > 0 ? 1 : 0;
+      }))
+  );
+
   // Ping command - Use proper MCP ping
   addCommonOptions(
     inspect.command('ping')
@@ -216,5 +395,61 @@ Examples:
       }))
   );
 
+  // Shell command - one connection kept open for a session of commands
+  addCommonOptions(
+    inspect.command('shell')
+      .description('Explore the server interactively: list, call, read and restart with history and tab completion')
+      .action(async (childCommandArr: string[] | undefined, options) => {
+        validateInspectionTarget(childCommandArr, options);
+
+        const timeout = parseInt(options.timeout, 10);
+        if (isNaN(timeout) || timeout <= 0) {
+          console.error(JSON.stringify({ error: `Invalid timeout: ${options.timeout}` }, null, 2));
+          process.exit(1);
+        }
+
+        const shell = new InspectShell({
+          ...createInspectionSession(childCommandArr, options),
+          requestTimeout: timeout,
+          historyFile: join(homedir(), INSPECT_SHELL_DEFAULTS.HISTORY_FILE)
+        });
+
+        try {
+          await shell.start();
+        } catch (error) {
+          console.error(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }, null, 2));
+          process.exit(1);
+        }
+        process.exit(0);
+      })
+  );
+
+  // Run command - a script of dependent steps against one server session
+  addCommonOptions(
+    inspect.command('run <script>')
+      .description('Run the steps of a JSON or YAML script in one session and print a combined report')
+      .action(async (script: string, childCommandArr: string[] | undefined, options) => {
+        validateInspectionTarget(childCommandArr, options);
+
+        const timeout = parseInt(options.timeout, 10);
+        if (isNaN(timeout) || timeout <= 0) {
+          console.error(JSON.stringify({ error: `Invalid timeout: ${options.timeout}` }, null, 2));
+          process.exit(1);
+        }
+
+        try {
+          const report = await runScript(loadScript(script), {
+            ...createInspectionSession(childCommandArr, options),
+            timeout
+          });
+          console.log(JSON.stringify(report, null, 2));
+          process.exit(report.passed ? 0 : 1);
+        } catch (error) {
+          console.error(JSON.stringify({ error: error instanceof Error ? error.message : String(error) }, null, 2));
+          process.exit(1);
+        }
+      })
+  );
+
   return inspect;
 }
\ No newline at end of file
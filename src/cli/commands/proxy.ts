@@ -10,6 +10,8 @@ import { resolve, isAbsolute } from 'path';
 import { MCPProxy } from '../../mcp-proxy.js';
 import { Config, validateCommand, getEnvironmentConfig } from '../../config.js';
 import { logger } from '../../mcp-logger.js';
+import { BUILD_DEFAULTS, HTTP_TRANSPORT_DEFAULTS, REQUEST_TIMEOUT_DEFAULTS } from '../../constants.js';
+import { isHttpUrl } from '../../remote-client-transport.js';
 import type { ProxyConfig, LoggingLevel } from '../../types.js';
 
 /**
@@ -39,17 +41,37 @@ function formatDuration(ms: number): string {
   return `${Math.floor(ms / 60000)}m ${Math.floor((ms % 60000) / 1000)}s`;
 }
 
+/**
+ * Describe the upstream transport for startup output
+ */
+function formatTransport(config: ProxyConfig): string {
+  if (config.transport !== 'http') return 'stdio';
+  const base = `http://${config.host}:${config.port}`;
+  const allowed = [
+    ...(config.allowedHosts ? [`allowed hosts: ${config.allowedHosts.join(', ')}`] : []),
+    ...(config.allowedOrigins ? [`allowed origins: ${config.allowedOrigins.join(', ')}`] : [])
+  ];
+  return `http ${base}${HTTP_TRANSPORT_DEFAULTS.MCP_PATH} (legacy SSE: ${base}${HTTP_TRANSPORT_DEFAULTS.SSE_PATH})`
+    + allowed.map(line => `; ${line}`).join('');
+}
+
 /**
  * Create the proxy command
  */
 export function createProxyCommand(): Command {
   const proxy = new Command('proxy')
     .description('Run as MCP proxy server (default behavior)')
-    .usage('[options] -- <child-command> [child-args...]')
+    .usage('[options] -- <child-command> [child-args...] | --child-url <url> [options]')
     .addHelpText('after', `
 Examples:
   $ reloaderoo proxy -- node server.js
   $ reloaderoo proxy --log-level debug -- python mcp_server.py --port 8080
+  $ reloaderoo proxy --watch 'src/**/*.ts' -- node dist/server.js
+  $ reloaderoo proxy --watch 'src/**/*.ts' --build 'npm run build' -- node dist/server.js
+  $ reloaderoo proxy --transport http --port 3000 -- node server.js
+  $ reloaderoo proxy --record session.jsonl -- node server.js
+  $ reloaderoo proxy --strict-arguments -- node server.js
+  $ reloaderoo proxy --child-url http://localhost:8080/mcp --restart-command 'docker compose restart mcp'
     `)
     .option(
       '-w, --working-dir <directory>',
@@ -70,6 +92,28 @@ Examples:
       'Timeout for restart operations in milliseconds',
       '30000'
     )
+    .option(
+      '--request-timeout <ms>',
+      'Time a request forwarded to the child may take before it is cancelled, in milliseconds',
+      String(REQUEST_TIMEOUT_DEFAULTS.TIMEOUT_MS)
+    )
+    .option(
+      '--tool-timeout <tool=ms...>',
+      'Per-tool request timeout overrides, e.g. --tool-timeout build_project=300000'
+    )
+    .option(
+      '--max-total-timeout <ms>',
+      'Total time a request may take while progress notifications keep resetting its timeout, in milliseconds',
+      String(REQUEST_TIMEOUT_DEFAULTS.MAX_TOTAL_MS)
+    )
+    .option(
+      '--strict-arguments',
+      "Reject tool calls whose arguments don't match the tool's inputSchema with InvalidParams instead of forwarding them"
+    )
+    .option(
+      '--strict-output',
+      "Fail tool calls whose structuredContent doesn't match the tool's outputSchema instead of only logging a warning"
+    )
     .option(
       '-m, --max-restarts <number>',
       'Maximum number of restart attempts (0-10)',
@@ -92,6 +136,63 @@ Examples:
       '--debug',
       'Enable debug mode with verbose logging'
     )
+    .option(
+      '--watch <glob...>',
+      'Restart the child automatically when files matching these globs change'
+    )
+    .option(
+      '--watch-ignore <glob...>',
+      'Additional glob patterns to exclude from watching (node_modules, dist and .git are always excluded)'
+    )
+    .option(
+      '--watch-debounce <ms>',
+      'Quiet period after a file change before restarting in milliseconds',
+      '300'
+    )
+    .option(
+      '-b, --build <command>',
+      'Build command to run before each restart; the child is only replaced if it succeeds'
+    )
+    .option(
+      '--build-timeout <ms>',
+      'Time the build command may run before it is killed, in milliseconds',
+      String(BUILD_DEFAULTS.TIMEOUT_MS)
+    )
+    .option(
+      '--transport <type>',
+      'Transport clients connect through: stdio, or http (Streamable HTTP with SSE fallback)',
+      'stdio'
+    )
+    .option(
+      '--port <number>',
+      'Port to listen on with --transport http',
+      String(HTTP_TRANSPORT_DEFAULTS.PORT)
+    )
+    .option(
+      '--host <address>',
+      'Interface to bind with --transport http (use 0.0.0.0 for remote clients)',
+      HTTP_TRANSPORT_DEFAULTS.HOST
+    )
+    .option(
+      '--allowed-hosts <host...>',
+      'Host headers to accept with --transport http, as host:port (default: the bound host and port)'
+    )
+    .option(
+      '--allowed-origins <origin...>',
+      'Browser origins to accept with --transport http (default: http:// plus each allowed host)'
+    )
+    .option(
+      '--child-url <url>',
+      'Connect to a child server running as an HTTP service (Streamable HTTP or SSE) instead of spawning one'
+    )
+    .option(
+      '--restart-command <command>',
+      'With --child-url: command that restarts the service before restart_server reconnects'
+    )
+    .option(
+      '--record <file>',
+      'Record every JSON-RPC message crossing the proxy to a JSONL file'
+    )
     .option(
       '--dry-run',
       'Validate configuration without starting proxy'
@@ -115,19 +216,34 @@ Examples:
         
         // Parse child command using pass-through syntax (-- child-command [args...])
         const dashIndex = process.argv.indexOf('--');
-        if (dashIndex === -1 || dashIndex >= process.argv.length - 1) {
+        const hasChildCommand = dashIndex !== -1 && dashIndex < process.argv.length - 1;
+        const childUrl = options.childUrl as string | undefined;
+        
+        if (childUrl !== undefined) {
+          if (hasChildCommand) {
+            process.stderr.write('Error: Use either --child-url or a child command, not both\n');
+            process.exit(1);
+          }
+          if (!isHttpUrl(childUrl)) {
+            process.stderr.write(`Error: Invalid --child-url '${childUrl}'. Must be an http or https URL\n`);
+            process.exit(1);
+          }
+        } else if (!hasChildCommand) {
           process.stderr.write('Error: Child command is required\n');
           process.stderr.write('Use: reloaderoo proxy [options] -- <command> [args...]\n');
+          process.stderr.write('  or: reloaderoo proxy [options] --child-url <url>\n');
           process.stderr.write('Example: reloaderoo proxy -- node server.js\n');
           process.stderr.write('Try: reloaderoo proxy --help\n');
           process.exit(1);
         }
         
-        const childCommand = process.argv[dashIndex + 1]!;
-        const childArgs = process.argv.slice(dashIndex + 2);
+        const childCommand = hasChildCommand ? process.argv[dashIndex + 1]! : '';
+        const childArgs = hasChildCommand ? process.argv.slice(dashIndex + 2) : [];
         
         // Validate child command
-        const cmdValidation = validateCommand(childCommand);
+        const cmdValidation: ReturnType<typeof validateCommand> = hasChildCommand
+          ? validateCommand(childCommand)
+          : { valid: true };
         if (!cmdValidation.valid) {
           process.stderr.write(`Error: ${cmdValidation.error}\n`);
           process.exit(1);
@@ -147,6 +263,31 @@ Examples:
           process.exit(1);
         }
         
+        const { MIN_MS, MAX_MS } = REQUEST_TIMEOUT_DEFAULTS;
+        const requestTimeout = parseInt(options.requestTimeout);
+        if (isNaN(requestTimeout) || requestTimeout < MIN_MS || requestTimeout > MAX_MS) {
+          process.stderr.write(`Error: --request-timeout must be between ${MIN_MS} and ${MAX_MS}\n`);
+          process.exit(1);
+        }
+        
+        const maxTotalTimeout = parseInt(options.maxTotalTimeout);
+        if (isNaN(maxTotalTimeout) || maxTotalTimeout < MIN_MS || maxTotalTimeout > MAX_MS) {
+          process.stderr.write(`Error: --max-total-timeout must be between ${MIN_MS} and ${MAX_MS}\n`);
+          process.exit(1);
+        }
+        
+        const toolTimeouts: Record<string, number> = {};
+        for (const entry of (options.toolTimeout as string[] | undefined) ?? []) {
+          const separator = entry.lastIndexOf('=');
+          const tool = entry.slice(0, separator);
+          const timeout = Number(entry.slice(separator + 1));
+          if (separator <= 0 || !Number.isInteger(timeout) || timeout < MIN_MS || timeout > MAX_MS) {
+            process.stderr.write(`Error: Invalid --tool-timeout '${entry}'. Use <tool>=<ms> with ms between ${MIN_MS} and ${MAX_MS}\n`);
+            process.exit(1);
+          }
+          toolTimeouts[tool] = timeout;
+        }
+        
         const maxRestarts = parseInt(options.maxRestarts);
         if (isNaN(maxRestarts) || maxRestarts < 0 || maxRestarts > 10) {
           process.stderr.write('Error: --max-restarts must be between 0 and 10\n');
@@ -159,6 +300,30 @@ Examples:
           process.exit(1);
         }
         
+        const watchDebounce = parseInt(options.watchDebounce);
+        if (isNaN(watchDebounce) || watchDebounce < 0 || watchDebounce > 60000) {
+          process.stderr.write('Error: --watch-debounce must be between 0 and 60000\n');
+          process.exit(1);
+        }
+        
+        const buildTimeout = parseInt(options.buildTimeout);
+        if (isNaN(buildTimeout) || buildTimeout < BUILD_DEFAULTS.MIN_TIMEOUT_MS || buildTimeout > BUILD_DEFAULTS.MAX_TIMEOUT_MS) {
+          process.stderr.write(`Error: --build-timeout must be between ${BUILD_DEFAULTS.MIN_TIMEOUT_MS} and ${BUILD_DEFAULTS.MAX_TIMEOUT_MS}\n`);
+          process.exit(1);
+        }
+        
+        if (options.transport !== 'stdio' && options.transport !== 'http') {
+          process.stderr.write(`Error: Invalid transport '${options.transport}'\n`);
+          process.stderr.write('Valid transports: stdio, http\n');
+          process.exit(1);
+        }
+        
+        const port = parseInt(options.port);
+        if (isNaN(port) || port < 0 || port > 65535) {
+          process.stderr.write('Error: --port must be between 0 and 65535\n');
+          process.exit(1);
+        }
+        
         // Validate log level
         const validLogLevels: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical'];
         if (!validLogLevels.includes(options.logLevel as LoggingLevel)) {
@@ -175,9 +340,30 @@ Examples:
           environment: process.env as Record<string, string>,
           restartLimit: maxRestarts,
           operationTimeout: restartTimeout,
+          requestTimeout,
+          ...(options.toolTimeout && { toolTimeouts }),
+          maxTotalTimeout,
+          ...(options.strictArguments && { strictArguments: true }),
+          ...(options.strictOutput && { strictOutput: true }),
           logLevel: options.logLevel as LoggingLevel,
           autoRestart: options.autoRestart !== false,
-          restartDelay
+          restartDelay,
+          ...(options.watch && {
+            watchPatterns: options.watch as string[],
+            watchDebounce
+          }),
+          ...(options.watchIgnore && { watchIgnorePatterns: options.watchIgnore as string[] }),
+          ...(options.build && { buildCommand: options.build as string, buildTimeout }),
+          ...(options.transport === 'http' && {
+            transport: 'http' as const,
+            port,
+            host: options.host as string,
+            ...(options.allowedHosts && { allowedHosts: options.allowedHosts as string[] }),
+            ...(options.allowedOrigins && { allowedOrigins: options.allowedOrigins as string[] })
+          }),
+          ...(childUrl && { childUrl }),
+          ...(childUrl && options.restartCommand && { restartCommand: options.restartCommand as string }),
+          ...(options.record && { recordFile: resolve(options.record as string) })
         };
         
         // Configure logging
@@ -212,14 +398,38 @@ Examples:
             
             if (validation.valid) {
               process.stderr.write('\nConfiguration:\n');
-              process.stderr.write(`  Child Command: ${proxyConfig.childCommand}\n`);
-              process.stderr.write(`  Child Args: ${proxyConfig.childArgs.join(' ') || '(none)'}\n`);
+              if (proxyConfig.childUrl) {
+                process.stderr.write(`  Child URL: ${proxyConfig.childUrl}\n`);
+                if (proxyConfig.restartCommand) {
+                  process.stderr.write(`  Restart Command: ${proxyConfig.restartCommand}\n`);
+                }
+              } else {
+                process.stderr.write(`  Child Command: ${proxyConfig.childCommand}\n`);
+                process.stderr.write(`  Child Args: ${proxyConfig.childArgs.join(' ') || '(none)'}\n`);
+              }
               process.stderr.write(`  Working Dir: ${proxyConfig.workingDirectory}\n`);
               process.stderr.write(`  Log Level: ${proxyConfig.logLevel}\n`);
               process.stderr.write(`  Auto Restart: ${proxyConfig.autoRestart}\n`);
               process.stderr.write(`  Max Restarts: ${proxyConfig.restartLimit}\n`);
               process.stderr.write(`  Restart Delay: ${formatDuration(proxyConfig.restartDelay)}\n`);
               process.stderr.write(`  Operation Timeout: ${formatDuration(proxyConfig.operationTimeout)}\n`);
+              process.stderr.write(`  Request Timeout: ${formatDuration(requestTimeout)}\n`);
+              for (const [tool, timeout] of Object.entries(toolTimeouts)) {
+                process.stderr.write(`    ${tool}: ${formatDuration(timeout)}\n`);
+              }
+              process.stderr.write(`  Max Total Timeout: ${formatDuration(maxTotalTimeout)}\n`);
+              process.stderr.write(`  Strict Arguments: ${proxyConfig.strictArguments ?? false}\n`);
+              process.stderr.write(`  Strict Output: ${proxyConfig.strictOutput ?? false}\n`);
+              if (proxyConfig.buildCommand) {
+                process.stderr.write(`  Build Command: ${proxyConfig.buildCommand} (timeout ${formatDuration(buildTimeout)})\n`);
+              }
+              if (proxyConfig.watchPatterns) {
+                process.stderr.write(`  Watch: ${proxyConfig.watchPatterns.join(', ')} (debounce ${formatDuration(watchDebounce)})\n`);
+              }
+              process.stderr.write(`  Transport: ${formatTransport(proxyConfig)}\n`);
+              if (proxyConfig.recordFile) {
+                process.stderr.write(`  Record: ${proxyConfig.recordFile}\n`);
+              }
             }
           }
           
@@ -229,8 +439,25 @@ Examples:
         // Start the proxy
         if (!options.quiet) {
           process.stderr.write('Starting reloaderoo MCP proxy server...\n');
-          process.stderr.write(`Child: ${childCommand} ${childArgs.join(' ')}\n`);
+          process.stderr.write(childUrl
+            ? `Child: ${childUrl}\n`
+            : `Child: ${childCommand} ${childArgs.join(' ')}\n`);
+          if (proxyConfig.restartCommand) {
+            process.stderr.write(`Restart Command: ${proxyConfig.restartCommand}\n`);
+          }
           process.stderr.write(`Working Directory: ${proxyConfig.workingDirectory}\n`);
+          if (proxyConfig.buildCommand) {
+            process.stderr.write(`Build: ${proxyConfig.buildCommand}\n`);
+          }
+          if (proxyConfig.watchPatterns) {
+            process.stderr.write(`Watching: ${proxyConfig.watchPatterns.join(', ')}\n`);
+          }
+          if (proxyConfig.transport === 'http') {
+            process.stderr.write(`Transport: ${formatTransport(proxyConfig)}\n`);
+          }
+          if (proxyConfig.recordFile) {
+            process.stderr.write(`Recording: ${proxyConfig.recordFile}\n`);
+          }
           process.stderr.write('\n💡 For CLI tools and debugging, use: reloaderoo --help or reloaderoo inspect --help\n');
         }
         
@@ -0,0 +1,80 @@
+/**
+ * Replay command implementation
+ *
+ * Re-runs a session recorded with `proxy --record` against a server and reports
+ * the responses that differ from the recording
+ */
+
+import { Command } from 'commander';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { loadRecording, replaySession } from '../../session-replay.js';
+import { closeInspectionClient, connectInspectionClient, validateInspectionTarget } from './inspect.js';
+
+/**
+ * Create the replay command
+ */
+export function createReplayCommand(): Command {
+  return new Command('replay')
+    .description('Replay a session recorded with proxy --record and report responses that differ from the recording')
+    .usage('<recording> [options] -- <child-command> [child-args...] | <recording> --child-url <url>')
+    .addHelpText('after', `
+The requests the client sent are re-issued in order, one at a time.
+Exits with code 1 if any response differs from the recording.
+
+Examples:
+  $ reloaderoo replay session.jsonl -- node server.js
+  $ reloaderoo replay session.jsonl --ignore-volatile --ignore requestId -- node server.js
+  $ reloaderoo replay session.jsonl --child-url http://localhost:8080/mcp
+    `)
+    .argument('<recording>', 'JSONL file written by proxy --record')
+    .argument('[child-command...]', 'The child command and its arguments to execute')
+    .option('-w, --working-dir <dir>', 'Working directory for the child process')
+    .option('-t, --timeout <ms>', 'Timeout for each replayed request in milliseconds', '30000')
+    .option('--child-url <url>', 'Connect to a server running as an HTTP service instead of spawning a child command')
+    .option('--ignore <field...>', 'Property names left out of the comparison wherever they occur')
+    .option('--ignore-volatile', 'Treat timestamps and UUIDs inside strings as equal')
+    .action(async (recording: string, childCommandArr: string[] | undefined, options) => {
+      validateInspectionTarget(childCommandArr, options);
+
+      const timeout = parseInt(options.timeout, 10);
+      if (isNaN(timeout) || timeout <= 0) {
+        console.error(JSON.stringify({ error: `Invalid timeout: ${options.timeout}` }, null, 2));
+        process.exit(1);
+      }
+
+      let client: Client | undefined;
+      let exitCode = 0;
+      try {
+        const records = loadRecording(recording);
+
+        client = new Client({
+          name: 'reloaderoo-replay',
+          version: '1.0.0'
+        }, {
+          capabilities: {}
+        });
+        await connectInspectionClient(client, childCommandArr, options);
+
+        const report = await replaySession(client, records, {
+          timeout,
+          ...(options.ignore && { ignoreFields: options.ignore as string[] }),
+          ...(options.ignoreVolatile && { ignoreVolatile: true })
+        });
+
+        console.log(JSON.stringify(report, null, 2));
+        if (report.mismatches.length > 0) {
+          exitCode = 1;
+        }
+      } catch (error) {
+        console.error(JSON.stringify({
+          error: error instanceof Error ? error.message : String(error)
+        }, null, 2));
+        exitCode = 1;
+      } finally {
+        if (client) {
+          await closeInspectionClient(client, options);
+        }
+        process.exit(exitCode);
+      }
+    });
+}
@@ -0,0 +1,335 @@
+/**
+ * Interactive inspect shell
+ *
+ * Keeps one connection to the server open across commands, so stateful servers can be
+ * explored without being restarted for every call. Commands get history and tab
+ * completion of tool, prompt and resource names and of argument keys.
+ */
+
+import { createInterface } from 'readline';
+import { readFileSync, writeFileSync } from 'fs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { takeSnapshot, type CapabilitySnapshot } from '../capability-snapshot.js';
+import { getProtocolVersion } from '../protocol-version.js';
+import { INSPECT_SHELL_DEFAULTS } from '../constants.js';
+
+/** Options for an inspect shell */
+export interface InspectShellOptions {
+  /** Connect a new client to the server; called again by `restart` */
+  connect: () => Promise<Client>;
+  /** Close a client returned by connect */
+  close: (client: Client) => Promise<void>;
+  /** Time in milliseconds each request may take */
+  requestTimeout?: number;
+  /** File the command history is kept in; no history is kept without one */
+  historyFile?: string;
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+/** A shell command; run returns what to print */
+interface ShellCommand {
+  usage: string;
+  description: string;
+  run: (args: string) => Promise<unknown>;
+}
+
+/**
+ * REPL over a single server connection
+ */
+export class InspectShell {
+  private readonly options: InspectShellOptions;
+  private readonly output: NodeJS.WritableStream;
+  private readonly commands: Record<string, ShellCommand>;
+  private client: Client | null = null;
+  /** What the server offered when last listed, used for completion */
+  private catalog: CapabilitySnapshot | null = null;
+
+  constructor(options: InspectShellOptions) {
+    this.options = options;
+    this.output = options.output ?? process.stdout;
+    this.commands = {
+      tools: {
+        usage: 'tools',
+        description: 'List the tools',
+        run: async () => (await this.refreshCatalog()).tools
+          .map(tool => tool.description ? `${tool.name} - ${tool.description}` : tool.name)
+          .join('\n') || '(no tools)'
+      },
+      call: {
+        usage: 'call <name> [{json arguments}]',
+        description: 'Call a tool',
+        run: async (args) => {
+          const [name, json] = splitName(args, 'call <name> [{json arguments}]');
+          return this.getClient().callTool(
+            { name, arguments: parseJsonObject(json) },
+            undefined,
+            this.requestOptions()
+          );
+        }
+      },
+      resources: {
+        usage: 'resources',
+        description: 'List the resources and resource templates',
+        run: async () => {
+          const { resources, resourceTemplates } = await this.refreshCatalog();
+          return [
+            ...resources.map(resource => `${resource.uri} - ${resource.name}`),
+            ...resourceTemplates.map(template => `${template.uriTemplate} (template) - ${template.name}`)
+          ].join('\n') || '(no resources)';
+        }
+      },
+      read: {
+        usage: 'read <uri>',
+        description: 'Read a resource',
+        run: async (args) => {
+          const [uri] = splitName(args, 'read <uri>');
+          return this.getClient().readResource({ uri }, this.requestOptions());
+        }
+      },
+      prompts: {
+        usage: 'prompts',
+        description: 'List the prompts',
+        run: async () => (await this.refreshCatalog()).prompts
+          .map(prompt => prompt.description ? `${prompt.name} - ${prompt.description}` : prompt.name)
+          .join('\n') || '(no prompts)'
+      },
+      prompt: {
+        usage: 'prompt <name> [{json arguments}]',
+        description: 'Get a prompt',
+        run: async (args) => {
+          const [name, json] = splitName(args, 'prompt <name> [{json arguments}]');
+          return this.getClient().getPrompt(
+            { name, arguments: parseJsonObject(json) as Record<string, string> },
+            this.requestOptions()
+          );
+        }
+      },
+      info: {
+        usage: 'info',
+        description: 'Show the server info, protocol version and capabilities',
+        run: async () => {
+          const client = this.getClient();
+          const instructions = client.getInstructions();
+          return {
+            serverInfo: client.getServerVersion(),
+            protocolVersion: getProtocolVersion(client),
+            capabilities: client.getServerCapabilities(),
+            ...(instructions && { instructions })
+          };
+        }
+      },
+      ping: {
+        usage: 'ping',
+        description: 'Check server connectivity',
+        run: async () => this.getClient().ping(this.requestOptions())
+      },
+      restart: {
+        usage: 'restart',
+        description: 'Restart the server (or reconnect to it) and list it again',
+        run: async () => {
+          await this.disconnect();
+          return this.connect();
+        }
+      },
+      help: {
+        usage: 'help',
+        description: 'Show this help',
+        run: async () => [
+          ...Object.values(this.commands).map(({ usage, description }) => `${usage.padEnd(36)}${description}`),
+          `${'exit'.padEnd(36)}Leave the shell`
+        ].join('\n')
+      }
+    };
+  }
+
+  /**
+   * Connect and read commands until the input ends or `exit` is entered
+   */
+  async start(): Promise<void> {
+    this.print(await this.connect());
+
+    const rl = createInterface({
+      input: this.options.input ?? process.stdin,
+      output: this.output,
+      prompt: INSPECT_SHELL_DEFAULTS.PROMPT,
+      completer: (line: string) => this.complete(line),
+      history: this.loadHistory(),
+      historySize: INSPECT_SHELL_DEFAULTS.HISTORY_SIZE
+    });
+    rl.on('history', (history: string[]) => this.saveHistory(history));
+
+    try {
+      rl.prompt();
+      for await (const line of rl) {
+        if (['exit', 'quit'].includes(line.trim())) break;
+        await this.execute(line);
+        rl.prompt();
+      }
+    } finally {
+      rl.close();
+      await this.disconnect();
+    }
+  }
+
+  /**
+   * Run one command line and print its result or error
+   */
+  async execute(line: string): Promise<void> {
+    const [, name = '', args = ''] = /^\s*(\S*)\s*(.*?)\s*$/.exec(line) ?? [];
+    if (!name) return;
+
+    const command = this.commands[name];
+    if (!command) {
+      this.print(`Unknown command: ${name}. Type 'help' for the list of commands.`);
+      return;
+    }
+
+    try {
+      const result = await command.run(args);
+      this.print(typeof result === 'string' ? result : JSON.stringify(result, null, 2));
+    } catch (error) {
+      this.print(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Complete command names, tool, prompt and resource names, and argument keys
+   * from a tool's inputSchema or a prompt's arguments
+   */
+  complete(line: string): [string[], string] {
+    const commandName = /^\s*(\S*)$/.exec(line);
+    if (commandName) {
+      const partial = commandName[1]!;
+      return [[...Object.keys(this.commands), 'exit'].filter(name => name.startsWith(partial)), partial];
+    }
+
+    const [, command = '', rest = ''] = /^\s*(\S+)\s+(.*)$/.exec(line) ?? [];
+    const target = /^(\S*)$/.exec(rest);
+    if (target) {
+      const partial = target[1]!;
+      return [this.targetNames(command).filter(name => name.startsWith(partial)), partial];
+    }
+
+    const [, name = '', json = ''] = /^(\S+)\s+(.*)$/.exec(rest) ?? [];
+    // The key being typed: right after `{` or `,`, with or without its opening quote
+    const fragment = /[{,]\s*("?[^"\s:,{}]*)$/.exec(json)?.[1];
+    if (fragment === undefined) {
+      return [[], ''];
+    }
+    const candidates = this.argumentKeys(command, name)
+      .filter(key => !new RegExp(`"${escapeRegExp(key)}"\\s*:`).test(json))
+      .map(key => `"${key}": `)
+      .filter(candidate => candidate.startsWith(fragment) || candidate.startsWith(`"${fragment}`));
+    return [candidates, fragment];
+  }
+
+  private async connect(): Promise<string> {
+    this.client = await this.options.connect();
+    const { tools, prompts, resources } = await this.refreshCatalog();
+    const server = this.client.getServerVersion();
+    return `Connected to ${server?.name ?? 'server'} ${server?.version ?? ''}`.trimEnd()
+      + ` (${tools.length} tools, ${prompts.length} prompts, ${resources.length} resources). Type 'help' for commands.`;
+  }
+
+  private async disconnect(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    if (client) {
+      await this.options.close(client);
+    }
+  }
+
+  private getClient(): Client {
+    if (!this.client) {
+      throw new Error("Not connected to the server; use 'restart' to reconnect");
+    }
+    return this.client;
+  }
+
+  private async refreshCatalog(): Promise<CapabilitySnapshot> {
+    this.catalog = await takeSnapshot(this.getClient());
+    return this.catalog;
+  }
+
+  private requestOptions(): RequestOptions | undefined {
+    return this.options.requestTimeout !== undefined ? { timeout: this.options.requestTimeout } : undefined;
+  }
+
+  private targetNames(command: string): string[] {
+    switch (command) {
+      case 'call': return this.catalog?.tools.map(tool => tool.name) ?? [];
+      case 'prompt': return this.catalog?.prompts.map(prompt => prompt.name) ?? [];
+      case 'read': return this.catalog?.resources.map(resource => resource.uri) ?? [];
+      default: return [];
+    }
+  }
+
+  private argumentKeys(command: string, name: string): string[] {
+    if (command === 'call') {
+      const tool = this.catalog?.tools.find(tool => tool.name === name);
+      return Object.keys(tool?.inputSchema.properties ?? {});
+    }
+    if (command === 'prompt') {
+      const prompt = this.catalog?.prompts.find(prompt => prompt.name === name);
+      return prompt?.arguments?.map(argument => argument.name) ?? [];
+    }
+    return [];
+  }
+
+  private loadHistory(): string[] {
+    if (!this.options.historyFile) return [];
+    try {
+      // readline keeps the newest entry first
+      return readFileSync(this.options.historyFile, 'utf8').split('\n').filter(Boolean).reverse();
+    } catch {
+      return [];
+    }
+  }
+
+  private saveHistory(history: string[]): void {
+    if (!this.options.historyFile) return;
+    try {
+      writeFileSync(this.options.historyFile, [...history].reverse().join('\n') + '\n', 'utf8');
+    } catch {
+      // History is a convenience; a read-only home directory shouldn't break the shell
+    }
+  }
+
+  private print(text: string): void {
+    this.output.write(text + '\n');
+  }
+}
+
+/**
+ * Split command arguments into the leading name and the rest
+ */
+function splitName(args: string, usage: string): [string, string] {
+  const [, name, rest = ''] = /^(\S+)\s*(.*)$/.exec(args) ?? [];
+  if (!name) {
+    throw new Error(`Usage: ${usage}`);
+  }
+  return [name, rest];
+}
+
+/**
+ * Parse a JSON object argument; an empty argument is an empty object
+ */
+function parseJsonObject(json: string): Record<string, unknown> {
+  if (!json) return {};
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid JSON arguments: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Arguments must be a JSON object');
+  }
+  return value as Record<string, unknown>;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
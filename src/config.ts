@@ -19,6 +19,8 @@ import type {
   LoggingLevel
 } from './types.js';
 import { DEFAULT_PROXY_CONFIG } from './types.js';
+import { isHttpUrl } from './remote-client-transport.js';
+import { BUILD_DEFAULTS, REQUEST_TIMEOUT_DEFAULTS } from './constants.js';
 
 // =============================================================================
 // CONFIGURATION INTERFACES
@@ -264,6 +266,23 @@ export class Config extends EventEmitter {
     }
   }
 
+  /**
+   * Load an already assembled configuration (e.g. from the CLI) as the runtime source,
+   * so later updateConfig calls are validated and merged against it
+   */
+  loadProxyConfig(config: ProxyConfig): ConfigValidationResult {
+    this.state.sources.set(ConfigSource.RUNTIME, { ...config });
+
+    const validation = this.validateConfig(this.mergeConfigs());
+    if (validation.valid && validation.config) {
+      this.state.merged = validation.config;
+      this.state.lastValidation = validation;
+      this.emit('configLoaded', validation.config);
+    }
+
+    return validation;
+  }
+
   /**
    * Validate configuration with comprehensive checks
    */
@@ -272,11 +291,25 @@ export class Config extends EventEmitter {
     const warnings: string[] = [];
 
     // Required fields validation
-    if (!config.childCommand) {
+    if (config.childUrl !== undefined) {
+      if (config.childCommand) {
+        errors.push('childCommand and childUrl cannot both be set');
+      }
+      if (!isHttpUrl(config.childUrl)) {
+        errors.push(`Invalid childUrl: ${config.childUrl}. Must be an http or https URL`);
+      }
+    } else if (!config.childCommand) {
       errors.push('childCommand is required');
+    } else if (typeof config.childCommand !== 'string') {
+      errors.push('childCommand must be a string');
     } else {
       // Check if command exists and is executable
-      const cmdPath = isAbsolute(config.childCommand) ? config.childCommand : which(config.childCommand);
+      const { command, split } = resolveChildCommand(config.childCommand, config.childArgs ?? []);
+      if (split) {
+        warnings.push(`childCommand contains arguments: "${config.childCommand}". ` +
+          `Put only the executable in childCommand and the arguments in childArgs`);
+      }
+      const cmdPath = isAbsolute(command) ? command : which(command);
       if (!cmdPath) {
         errors.push(`Child command not found: ${config.childCommand}`);
       } else if (!existsSync(cmdPath)) {
@@ -291,7 +324,9 @@ export class Config extends EventEmitter {
     }
 
     // Working directory validation
-    if (config.workingDirectory) {
+    if (config.workingDirectory !== undefined && typeof config.workingDirectory !== 'string') {
+      errors.push('workingDirectory must be a string');
+    } else if (config.workingDirectory) {
       const workDir = resolve(config.workingDirectory);
       if (!existsSync(workDir)) {
         errors.push(`Working directory does not exist: ${workDir}`);
@@ -331,6 +366,31 @@ export class Config extends EventEmitter {
       }
     }
 
+    // Forwarded request timeouts
+    const { MIN_MS, MAX_MS } = REQUEST_TIMEOUT_DEFAULTS;
+    const isValidTimeout = (value: unknown) =>
+      typeof value === 'number' && Number.isInteger(value) && value >= MIN_MS && value <= MAX_MS;
+
+    if (config.requestTimeout !== undefined && !isValidTimeout(config.requestTimeout)) {
+      errors.push(`requestTimeout must be between ${MIN_MS}ms and ${MAX_MS}ms`);
+    }
+
+    if (config.maxTotalTimeout !== undefined && !isValidTimeout(config.maxTotalTimeout)) {
+      errors.push(`maxTotalTimeout must be between ${MIN_MS}ms and ${MAX_MS}ms`);
+    }
+
+    if (config.toolTimeouts !== undefined) {
+      if (typeof config.toolTimeouts !== 'object' || config.toolTimeouts === null || Array.isArray(config.toolTimeouts)) {
+        errors.push('toolTimeouts must be an object mapping tool names to milliseconds');
+      } else {
+        for (const [tool, timeout] of Object.entries(config.toolTimeouts)) {
+          if (!isValidTimeout(timeout)) {
+            errors.push(`Timeout for tool ${tool} must be between ${MIN_MS}ms and ${MAX_MS}ms`);
+          }
+        }
+      }
+    }
+
     // Child args validation
     if (config.childArgs) {
       if (!Array.isArray(config.childArgs)) {
@@ -340,6 +400,48 @@ export class Config extends EventEmitter {
       }
     }
 
+    // Watch options validation
+    if (config.watchPatterns) {
+      if (!Array.isArray(config.watchPatterns) || config.watchPatterns.some(p => typeof p !== 'string')) {
+        errors.push('watchPatterns must be an array of strings');
+      }
+    }
+
+    if (config.watchDebounce !== undefined) {
+      if (config.watchDebounce < 0 || config.watchDebounce > 60000) {
+        errors.push('watchDebounce must be between 0ms and 60000ms');
+      }
+    }
+
+    if (config.buildTimeout !== undefined) {
+      const { MIN_TIMEOUT_MS, MAX_TIMEOUT_MS } = BUILD_DEFAULTS;
+      if (config.buildTimeout < MIN_TIMEOUT_MS || config.buildTimeout > MAX_TIMEOUT_MS) {
+        errors.push(`buildTimeout must be between ${MIN_TIMEOUT_MS}ms and ${MAX_TIMEOUT_MS}ms`);
+      }
+    }
+
+    // Upstream transport validation
+    if (config.transport !== undefined && config.transport !== 'stdio' && config.transport !== 'http') {
+      errors.push(`Invalid transport: ${config.transport}. Must be one of: stdio, http`);
+    }
+
+    if (config.port !== undefined) {
+      if (!Number.isInteger(config.port) || config.port < 0 || config.port > 65535) {
+        errors.push('port must be an integer between 0 and 65535');
+      }
+    }
+
+    for (const field of ['allowedHosts', 'allowedOrigins'] as const) {
+      const values = config[field];
+      if (values !== undefined && (!Array.isArray(values) || values.some(v => typeof v !== 'string'))) {
+        errors.push(`${field} must be an array of strings`);
+      }
+    }
+
+    if (config.restartCommand && config.childUrl === undefined) {
+      warnings.push('restartCommand is only used with childUrl and will be ignored');
+    }
+
     // Environment validation
     if (config.environment) {
       if (typeof config.environment !== 'object' || config.environment === null) {
@@ -357,7 +459,7 @@ export class Config extends EventEmitter {
     let validatedConfig: ProxyConfig | undefined;
     if (errors.length === 0) {
       validatedConfig = {
-        childCommand: config.childCommand!,
+        childCommand: config.childCommand || '',
         childArgs: config.childArgs || [],
         workingDirectory: config.workingDirectory || process.cwd(),
         environment: config.environment || {},
@@ -365,7 +467,25 @@ export class Config extends EventEmitter {
         operationTimeout: config.operationTimeout ?? 30000,
         logLevel: config.logLevel || 'info',
         autoRestart: config.autoRestart ?? true,
-        restartDelay: config.restartDelay ?? 1000
+        restartDelay: config.restartDelay ?? 1000,
+        ...(config.watchPatterns && { watchPatterns: config.watchPatterns }),
+        ...(config.watchIgnorePatterns && { watchIgnorePatterns: config.watchIgnorePatterns }),
+        ...(config.watchDebounce !== undefined && { watchDebounce: config.watchDebounce }),
+        ...(config.buildCommand && { buildCommand: config.buildCommand }),
+        ...(config.buildTimeout !== undefined && { buildTimeout: config.buildTimeout }),
+        ...(config.requestTimeout !== undefined && { requestTimeout: config.requestTimeout }),
+        ...(config.toolTimeouts && { toolTimeouts: config.toolTimeouts }),
+        ...(config.maxTotalTimeout !== undefined && { maxTotalTimeout: config.maxTotalTimeout }),
+        ...(config.strictArguments && { strictArguments: true }),
+        ...(config.strictOutput && { strictOutput: true }),
+        ...(config.transport && { transport: config.transport }),
+        ...(config.port !== undefined && { port: config.port }),
+        ...(config.host && { host: config.host }),
+        ...(config.allowedHosts && { allowedHosts: config.allowedHosts }),
+        ...(config.allowedOrigins && { allowedOrigins: config.allowedOrigins }),
+        ...(config.childUrl && { childUrl: config.childUrl }),
+        ...(config.restartCommand && { restartCommand: config.restartCommand }),
+        ...(config.recordFile && { recordFile: config.recordFile })
       };
     }
 
@@ -541,6 +661,20 @@ export function createConfig(): { config: Config; result: ConfigValidationResult
   return { config, result };
 }
 
+/**
+ * Resolve the executable and arguments to spawn for a child command.
+ * childCommand is one executable, which may be a path containing spaces. Older
+ * configurations put arguments in it too ("node server.js"), so a command that does
+ * not resolve as a whole but whose first word does is split on whitespace instead.
+ */
+export function resolveChildCommand(command: string, args: string[]): { command: string; args: string[]; split: boolean } {
+  const [executable, ...inlineArgs] = command.trim().split(/\s+/);
+  if (inlineArgs.length === 0 || !executable || which(command) || !which(executable)) {
+    return { command, args, split: false };
+  }
+  return { command: executable, args: [...inlineArgs, ...args], split: true };
+}
+
 /**
  * Validate a configuration object without creating a Config instance
  */
@@ -9,7 +9,8 @@
  * MCP (Model Context Protocol) related constants
  */
 export const MCP_PROTOCOL = {
-  VERSION: '2024-11-05',
+  /** First spec revision with the completions server capability */
+  COMPLETIONS_SINCE_VERSION: '2025-03-26',
   JSONRPC_VERSION: '2.0',
   METHODS: {
     INITIALIZE: 'initialize',
@@ -23,7 +24,8 @@ export const MCP_PROTOCOL = {
   NOTIFICATIONS: {
     TOOLS_LIST_CHANGED: 'notifications/tools/list_changed',
     RESOURCES_LIST_CHANGED: 'notifications/resources/list_changed',
-    PROMPTS_LIST_CHANGED: 'notifications/prompts/list_changed'
+    PROMPTS_LIST_CHANGED: 'notifications/prompts/list_changed',
+    RESOURCES_UPDATED: 'notifications/resources/updated'
   }
 } as const;
 
@@ -34,6 +36,86 @@ export const PROXY_TOOLS = {
   RESTART_SERVER: 'restart_server'
 } as const;
 
+/**
+ * File watching defaults for automatic restarts
+ */
+export const WATCH_DEFAULTS = {
+  DEBOUNCE_MS: 300,
+  IGNORE_PATTERNS: ['**/node_modules/**', '**/dist/**', '**/.git/**']
+} as const;
+
+/**
+ * Defaults for the build command run before restarts
+ */
+export const BUILD_DEFAULTS = {
+  TIMEOUT_MS: 300000,
+  MIN_TIMEOUT_MS: 1000,
+  MAX_TIMEOUT_MS: 3600000
+} as const;
+
+/**
+ * Limits for requests parked while the child server restarts
+ */
+export const REQUEST_QUEUE_DEFAULTS = {
+  MAX_SIZE: 100
+} as const;
+
+/**
+ * Time limits for requests forwarded to the child server, in milliseconds
+ */
+export const REQUEST_TIMEOUT_DEFAULTS = {
+  TIMEOUT_MS: 60000,
+  /** Total time a request may keep running by reporting progress */
+  MAX_TOTAL_MS: 600000,
+  MIN_MS: 1000,
+  MAX_MS: 3600000
+} as const;
+
+/**
+ * Defaults for serving the proxy over HTTP
+ */
+export const HTTP_TRANSPORT_DEFAULTS = {
+  PORT: 3000,
+  HOST: '127.0.0.1',
+  /** Streamable HTTP endpoint */
+  MCP_PATH: '/mcp',
+  /** Legacy SSE stream endpoint */
+  SSE_PATH: '/sse',
+  /** Legacy SSE message endpoint */
+  MESSAGES_PATH: '/messages',
+  /** Maximum size of a JSON-RPC request body in bytes */
+  MAX_BODY_SIZE: 4 * 1024 * 1024
+} as const;
+
+/**
+ * Defaults for connecting to a child server running as an HTTP service
+ */
+export const REMOTE_CHILD_DEFAULTS = {
+  /** Lower bound for the delay between connection attempts in milliseconds */
+  MIN_RETRY_DELAY: 100
+} as const;
+
+/**
+ * Defaults for the interactive inspect shell
+ */
+export const INSPECT_SHELL_DEFAULTS = {
+  PROMPT: 'reloaderoo> ',
+  /** History file, relative to the home directory */
+  HISTORY_FILE: '.reloaderoo_history',
+  /** Number of commands kept in the history */
+  HISTORY_SIZE: 500
+} as const;
+
+/**
+ * Limits checked by inspect lint
+ */
+export const LINT_DEFAULTS = {
+  /** Tool names: 1-128 letters, digits, underscores, hyphens and dots */
+  TOOL_NAME_PATTERN: /^[A-Za-z0-9_.-]{1,128}$/,
+  /** Descriptions longer than this crowd the model's context */
+  MAX_DESCRIPTION_LENGTH: 1024
+} as const;
+
 /**
  * Environment variable names for configuration
  */
@@ -0,0 +1,74 @@
+/**
+ * DeferredServerTransport - Lets the proxy read a client's initialize request before it
+ * creates the MCP server that answers it. The child is started in between, so it can be
+ * offered what the client supports and the client answered with what the child offers.
+ */
+
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  isInitializeRequest,
+  type InitializeRequest,
+  type JSONRPCMessage,
+  type MessageExtraInfo
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Server transport that holds the client's messages until a server connects to it,
+ * then delivers them in order.
+ */
+export class DeferredServerTransport implements Transport {
+  private readonly inner: Transport;
+  private held: Array<{ message: JSONRPCMessage; extra: MessageExtraInfo | undefined }> = [];
+  private delivering = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  constructor(inner: Transport) {
+    this.inner = inner;
+  }
+
+  /**
+   * Start the underlying transport and wait for the client's initialize request.
+   * Rejects if the client disconnects first.
+   */
+  receiveInitialize(): Promise<InitializeRequest> {
+    return new Promise((resolve, reject) => {
+      this.inner.onmessage = (message, extra) => {
+        if (this.delivering) {
+          this.onmessage?.(message, extra);
+          return;
+        }
+        this.held.push({ message, extra });
+        if (isInitializeRequest(message)) {
+          resolve(message);
+        }
+      };
+      this.inner.onerror = (error) => this.onerror?.(error);
+      this.inner.onclose = () => {
+        reject(new Error('Client disconnected before initializing'));
+        this.onclose?.();
+      };
+      this.inner.start().catch(reject);
+    });
+  }
+
+  /**
+   * Called by the server as it connects: delivers the messages held so far
+   */
+  async start(): Promise<void> {
+    this.delivering = true;
+    for (const { message, extra } of this.held.splice(0)) {
+      this.onmessage?.(message, extra);
+    }
+  }
+
+  send(message: JSONRPCMessage, options?: TransportSendOptions): Promise<void> {
+    return this.inner.send(message, options);
+  }
+
+  close(): Promise<void> {
+    return this.inner.close();
+  }
+}
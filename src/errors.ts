@@ -35,7 +35,8 @@ export const PROXY_SPECIFIC_ERROR_CODES = {
   CHILD_CRASHED: -32005,
   RESTART_LIMIT_EXCEEDED: -32006,
   INVALID_PROXY_CONFIG: -32007,
-  CHILD_START_FAILED: -32008
+  CHILD_START_FAILED: -32008,
+  BUILD_FAILED: -32009
 } as const;
 
 /**
@@ -220,7 +221,8 @@ export class ProxyErrorHandler {
       [ProxyErrorCode.OPERATION_TIMEOUT]: PROXY_SPECIFIC_ERROR_CODES.CHILD_TIMEOUT,
       [ProxyErrorCode.CHILD_UNRESPONSIVE]: PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE,
       [ProxyErrorCode.INVALID_CONFIG]: PROXY_SPECIFIC_ERROR_CODES.INVALID_PROXY_CONFIG,
-      [ProxyErrorCode.CHILD_UNAVAILABLE]: PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE
+      [ProxyErrorCode.CHILD_UNAVAILABLE]: PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE,
+      [ProxyErrorCode.BUILD_FAILED]: PROXY_SPECIFIC_ERROR_CODES.BUILD_FAILED
     };
 
     return mapping[code] ?? JSONRPC_ERROR_CODES.INTERNAL_ERROR;
@@ -0,0 +1,268 @@
+/**
+ * FileWatcher - Watches the child server's source tree and emits debounced change events
+ * so the proxy can restart the child automatically after edits.
+ */
+
+import { EventEmitter } from 'events';
+import { readdirSync, statSync, watch, FSWatcher } from 'fs';
+import { basename, join, sep } from 'path';
+import { logger } from './mcp-logger.js';
+import { WATCH_DEFAULTS } from './constants.js';
+
+/** Events emitted by FileWatcher */
+export interface FileWatcherEvents {
+  'change': [filePath: string, changedFiles: string[]];
+  'error': [error: Error];
+}
+
+/** Options controlling which files are watched and how changes are batched */
+export interface FileWatcherOptions {
+  /** Directory to watch recursively; matched paths are relative to it */
+  rootDirectory: string;
+  /** Glob patterns of files that should trigger a change event */
+  patterns: string[];
+  /** Glob patterns of files to ignore, in addition to node_modules, dist and .git */
+  ignorePatterns?: string[] | undefined;
+  /** Quiet period in milliseconds before a batch of changes is emitted */
+  debounceMs?: number | undefined;
+}
+
+/** Options after defaults have been applied */
+interface ResolvedFileWatcherOptions {
+  rootDirectory: string;
+  patterns: string[];
+  ignorePatterns: string[];
+  debounceMs: number;
+}
+
+/**
+ * Convert a glob pattern into a regular expression.
+ * Supports `*`, `?`, `**` (any number of directories) and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    switch (char) {
+      case '*':
+        if (glob[i + 1] === '*') {
+          if (glob[i + 2] === '/') {
+            // '**/' matches zero or more leading directories
+            pattern += '(?:.*/)?';
+            i += 2;
+          } else {
+            pattern += '.*';
+            i += 1;
+          }
+        } else {
+          pattern += '[^/]*';
+        }
+        break;
+      case '?':
+        pattern += '[^/]';
+        break;
+      case '{':
+        inGroup = true;
+        pattern += '(?:';
+        break;
+      case '}':
+        pattern += inGroup ? ')' : '\\}';
+        inGroup = false;
+        break;
+      case ',':
+        pattern += inGroup ? '|' : ',';
+        break;
+      default:
+        pattern += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Check whether a relative path matches any of the given glob patterns.
+ * Patterns without a slash are matched against the file name at any depth.
+ */
+export function matchesAnyGlob(relativePath: string, patterns: string[]): boolean {
+  const normalizedPath = relativePath.split(sep).join('/');
+  const fileName = basename(normalizedPath);
+
+  return patterns.some(pattern => {
+    const target = pattern.includes('/') ? normalizedPath : fileName;
+    return globToRegExp(pattern).test(target);
+  });
+}
+
+/**
+ * FileWatcher recursively watches a directory and emits a single debounced 'change'
+ * event for each burst of matching file modifications. Where recursive fs.watch is
+ * unavailable (Linux before Node 20) each directory of the tree is watched instead.
+ */
+export class FileWatcher extends EventEmitter<FileWatcherEvents> {
+  private readonly options: ResolvedFileWatcherOptions;
+  /** Watchers by directory relative to the root; just '' when watching recursively */
+  private readonly watchers = new Map<string, FSWatcher>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private pendingFiles: string[] = [];
+
+  constructor(options: FileWatcherOptions) {
+    super();
+
+    this.options = {
+      rootDirectory: options.rootDirectory,
+      patterns: options.patterns,
+      ignorePatterns: [...WATCH_DEFAULTS.IGNORE_PATTERNS, ...(options.ignorePatterns ?? [])],
+      debounceMs: options.debounceMs ?? WATCH_DEFAULTS.DEBOUNCE_MS
+    };
+  }
+
+  /** Start watching the root directory */
+  start(): void {
+    if (this.watchers.size > 0) return;
+
+    try {
+      this.addWatcher('', watch(this.options.rootDirectory, { recursive: true }, (_eventType, filename) => {
+        if (filename) {
+          this.handleFileEvent(filename.toString());
+        }
+      }));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        this.watchTree('');
+      } else {
+        throw new Error(
+          `Failed to watch ${this.options.rootDirectory}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    logger.info('Watching for file changes', {
+      rootDirectory: this.options.rootDirectory,
+      patterns: this.options.patterns,
+      ignorePatterns: this.options.ignorePatterns,
+      debounceMs: this.options.debounceMs
+    }, 'WATCH');
+  }
+
+  /** Stop watching and discard any pending changes */
+  close(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.pendingFiles = [];
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  /** Check if the watcher is currently active */
+  isWatching(): boolean {
+    return this.watchers.size > 0;
+  }
+
+  /**
+   * Watch a directory and, recursively, the directories below it that aren't ignored.
+   * Directories created later are picked up from the events of their parent.
+   */
+  private watchTree(relativeDir: string): void {
+    if (this.watchers.has(relativeDir) || (relativeDir && matchesAnyGlob(`${relativeDir}/`, this.options.ignorePatterns))) {
+      return;
+    }
+
+    const directory = join(this.options.rootDirectory, relativeDir);
+    try {
+      this.addWatcher(relativeDir, watch(directory, (_eventType, filename) => {
+        if (!filename) return;
+        const relativePath = join(relativeDir, filename.toString());
+        if (this.isDirectory(relativePath)) {
+          this.watchTree(relativePath);
+        } else if (this.watchers.has(relativePath)) {
+          this.unwatchTree(relativePath);
+        } else {
+          this.handleFileEvent(relativePath);
+        }
+      }));
+
+      for (const entry of readdirSync(directory, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+          this.watchTree(join(relativeDir, entry.name));
+        }
+      }
+    } catch (error) {
+      if (relativeDir === '') {
+        throw new Error(
+          `Failed to watch ${this.options.rootDirectory}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      // The directory may have been removed again before it could be watched
+      logger.debug('Cannot watch directory', { directory: relativeDir, error: String(error) }, 'WATCH');
+    }
+  }
+
+  private addWatcher(relativeDir: string, watcher: FSWatcher): void {
+    this.watchers.set(relativeDir, watcher);
+    watcher.on('error', (error: Error) => {
+      if (relativeDir !== '') {
+        logger.debug('Stopped watching directory', { directory: relativeDir, error: error.message }, 'WATCH');
+        this.unwatchTree(relativeDir);
+        return;
+      }
+      logger.error('File watcher error', { error: error.message }, 'WATCH');
+      this.emit('error', error);
+    });
+  }
+
+  /** Stop watching a removed directory and the directories below it */
+  private unwatchTree(relativeDir: string): void {
+    for (const [directory, watcher] of this.watchers) {
+      if (directory === relativeDir || directory.startsWith(relativeDir + sep)) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+  }
+
+  private isDirectory(relativePath: string): boolean {
+    try {
+      return statSync(join(this.options.rootDirectory, relativePath)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  private handleFileEvent(relativePath: string): void {
+    if (matchesAnyGlob(relativePath, this.options.ignorePatterns)) {
+      return;
+    }
+
+    if (!matchesAnyGlob(relativePath, this.options.patterns)) {
+      return;
+    }
+
+    if (!this.pendingFiles.includes(relativePath)) {
+      this.pendingFiles.push(relativePath);
+    }
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(() => this.flush(), this.options.debounceMs);
+  }
+
+  private flush(): void {
+    this.debounceTimer = null;
+    const changedFiles = this.pendingFiles;
+    this.pendingFiles = [];
+
+    if (changedFiles.length > 0) {
+      this.emit('change', changedFiles[0]!, changedFiles);
+    }
+  }
+}
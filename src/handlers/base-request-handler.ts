@@ -0,0 +1,75 @@
+/**
+ * Base Request Handler
+ *
+ * Shared child client tracking for handlers that forward requests to the child server.
+ * Requests that arrive while the child is restarting or unavailable are parked in the
+ * request queue and replayed once a child is connected. Forwarded requests carry the
+ * client's cancellation downstream and the child's progress upstream.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestQueue } from '../request-queue.js';
+import { PROXY_SPECIFIC_ERROR_CODES } from '../errors.js';
+import { InFlightRequests, type ForwardTarget, type UpstreamRequestExtra } from '../in-flight-requests.js';
+
+export abstract class BaseRequestHandler {
+  protected childClient: Client | null = null;
+  protected readonly requestQueue: RequestQueue | null;
+  protected readonly inFlightRequests: InFlightRequests;
+
+  constructor(childClient: Client | null, requestQueue?: RequestQueue, inFlightRequests?: InFlightRequests) {
+    this.childClient = childClient;
+    this.requestQueue = requestQueue ?? null;
+    this.inFlightRequests = inFlightRequests ?? new InFlightRequests();
+  }
+
+  /**
+   * Update the child client reference
+   */
+  updateChildClient(client: Client | null): void {
+    this.childClient = client;
+  }
+
+  /**
+   * Get the child client to forward a request to, waiting in the queue during restarts.
+   * Fails at once when the child is gone and no restart is pending.
+   */
+  protected async acquireChildClient(method: string, signal?: AbortSignal): Promise<Client> {
+    if (this.childClient && !this.requestQueue?.isPaused()) {
+      return this.childClient;
+    }
+
+    if (this.requestQueue?.isPaused()) {
+      return this.requestQueue.enqueue(method, signal);
+    }
+
+    // No restart is pending, so waiting in the queue could only end in its timeout
+    if (this.requestQueue) {
+      throw new McpError(
+        PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE,
+        `Child server is not available and no restart is pending (${method})`
+      );
+    }
+
+    throw new McpError(
+      ErrorCode.InternalError,
+      'Child server not available'
+    );
+  }
+
+  /**
+   * Forward a client request to the child server, tracking it so cancellation and
+   * progress are relayed, the proxy's timeout applies and a restart can cancel it
+   */
+  protected async forwardToChild<T>(
+    target: ForwardTarget,
+    extra: UpstreamRequestExtra | undefined,
+    send: (client: Client, options: RequestOptions) => Promise<T>
+  ): Promise<T> {
+    const label = target.tool !== undefined ? `${target.method} ${target.tool}` : target.method;
+    const childClient = await this.acquireChildClient(label, extra?.signal);
+    return this.inFlightRequests.forward(childClient, target, extra, (options) => send(childClient, options));
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Child Request Forwarder
+ *
+ * Handles requests the child server sends to its client (sampling, roots and elicitation)
+ * by forwarding them to the upstream client and passing the result back to the child.
+ * The child is only offered what the connected client sessions support, and handlers are
+ * only registered for what it was offered. With several client sessions, each request goes
+ * to the most recent session that advertised its capability.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  McpError,
+  ClientCapabilities,
+  CreateMessageRequestSchema,
+  ListRootsRequestSchema,
+  ElicitRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../mcp-logger.js';
+
+/** Server-to-client features forwarded to upstream sessions */
+type ForwardedCapability = 'sampling' | 'roots' | 'elicitation';
+
+const FORWARDED_CAPABILITIES: ForwardedCapability[] = ['sampling', 'roots', 'elicitation'];
+
+export class ChildRequestForwarder {
+  private readonly getServers: () => Iterable<Server>;
+  /** Settles once a session that is still being initialized can take requests */
+  private pendingSession: Promise<void> | null = null;
+
+  constructor(getServers: () => Iterable<Server>) {
+    this.getServers = getServers;
+  }
+
+  /**
+   * Capabilities to advertise to the child: the server-to-client features any initialized
+   * session supports, plus those of a session whose initialize request is being answered
+   */
+  getChildCapabilities(initializing?: ClientCapabilities): ClientCapabilities {
+    const sessions = [...this.getServers()].map(server => server.getClientCapabilities());
+    const offered: Record<string, object> = {};
+    for (const capabilities of initializing ? [...sessions, initializing] : sessions) {
+      for (const capability of FORWARDED_CAPABILITIES) {
+        const supported = capabilities?.[capability];
+        if (supported) {
+          offered[capability] = { ...offered[capability], ...supported };
+        }
+      }
+    }
+    return offered as ClientCapabilities;
+  }
+
+  /**
+   * Hold child requests no session can serve yet until the given session is ready,
+   * e.g. a child asking for roots while the client's initialize is still being answered
+   */
+  waitForSession(ready: Promise<void>): void {
+    const pending: Promise<void> = ready.catch(() => undefined).finally(() => {
+      if (this.pendingSession === pending) {
+        this.pendingSession = null;
+      }
+    });
+    this.pendingSession = pending;
+  }
+
+  /**
+   * Register forwarding handlers on a child client for the capabilities it advertises
+   */
+  attach(client: Client, capabilities: ClientCapabilities): void {
+    if (capabilities.sampling) {
+      client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+        logger.debug('Forwarding sampling request to client', {
+          messageCount: request.params.messages.length
+        }, 'PROXY-SAMPLING');
+        const server = await this.requireServer(request.method, 'sampling');
+        return server.createMessage(request.params, { signal: extra.signal });
+      });
+    }
+
+    if (capabilities.roots) {
+      client.setRequestHandler(ListRootsRequestSchema, async (request, extra) => {
+        logger.debug('Forwarding roots request to client', {}, 'PROXY-ROOTS');
+        const server = await this.requireServer(request.method, 'roots');
+        return server.listRoots(request.params, { signal: extra.signal });
+      });
+    }
+
+    if (capabilities.elicitation) {
+      client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+        logger.debug('Forwarding elicitation request to client', {
+          message: request.params.message
+        }, 'PROXY-ELICITATION');
+        const server = await this.requireServer(request.method, 'elicitation');
+        return server.elicitInput(request.params, { signal: extra.signal });
+      });
+    }
+  }
+
+  /**
+   * Find the most recently connected session that advertised a capability
+   */
+  private findServer(capability: ForwardedCapability): Server | undefined {
+    return [...this.getServers()].reverse().find(server => server.getClientCapabilities()?.[capability]);
+  }
+
+  /**
+   * Get the client session to forward to, failing if no connected client supports the request
+   */
+  private async requireServer(method: string, capability: ForwardedCapability): Promise<Server> {
+    let server = this.findServer(capability);
+    if (!server && this.pendingSession) {
+      await this.pendingSession;
+      server = this.findServer(capability);
+    }
+    if (!server) {
+      throw new McpError(ErrorCode.InternalError, `No connected client supports ${capability} to handle ${method}`);
+    }
+    return server;
+  }
+}
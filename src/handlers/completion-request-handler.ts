@@ -1,47 +1,26 @@
 /**
- * Completion and Sampling Request Handler
+ * Completion Request Handler
  * 
- * Handles MCP completion and sampling requests by forwarding them to the child server.
+ * Handles MCP completion requests by forwarding them to the child server.
  */
 
-import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { 
-  ErrorCode, 
-  McpError,
   CompleteRequest,
-  CreateMessageRequest,
-  CompleteResult,
-  CreateMessageResult
+  CompleteResult
 } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../mcp-logger.js';
+import type { UpstreamRequestExtra } from '../in-flight-requests.js';
+import { BaseRequestHandler } from './base-request-handler.js';
 
-export class CompletionRequestHandler {
-  private childClient: Client | null = null;
-
-  constructor(childClient: Client | null) {
-    this.childClient = childClient;
-  }
-
-  /**
-   * Update the child client reference
-   */
-  updateChildClient(client: Client | null): void {
-    this.childClient = client;
-  }
-
+export class CompletionRequestHandler extends BaseRequestHandler {
   /**
    * Handle completion request
    */
-  async handleComplete(request: CompleteRequest): Promise<CompleteResult> {
-    if (!this.childClient) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        'Child server not available'
-      );
-    }
-
+  async handleComplete(request: CompleteRequest, extra?: UpstreamRequestExtra): Promise<CompleteResult> {
     try {
-      const result = await this.childClient.complete(request.params);
+      const result = await this.forwardToChild({ method: 'completion/complete' }, extra, (childClient, options) =>
+        childClient.complete(request.params, options)
+      );
       logger.debug('Completion request processed', { 
         ref: request.params.ref 
       }, 'PROXY-COMPLETION');
@@ -54,29 +33,4 @@ export class CompletionRequestHandler {
       throw error;
     }
   }
-
-  /**
-   * Handle sampling request (create message)
-   */
-  async handleCreateMessage(_request: CreateMessageRequest): Promise<CreateMessageResult> {
-    if (!this.childClient) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        'Child server not available'
-      );
-    }
-
-    // Note: Simplified forwarding - in a full implementation, 
-    // this would use proper MCP client sampling methods
-    const error = new McpError(
-      ErrorCode.MethodNotFound,
-      'Sampling not yet supported'
-    );
-
-    logger.debug('Failed to process sampling request', { 
-      error: error.message 
-    }, 'PROXY-SAMPLING');
-
-    throw error;
-  }
 }
\ No newline at end of file
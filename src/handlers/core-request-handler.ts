@@ -4,41 +4,19 @@
  * Handles core MCP requests like ping operations.
  */
 
-import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { 
-  ErrorCode, 
-  McpError,
-  PingRequest
-} from '@modelcontextprotocol/sdk/types.js';
+import { PingRequest, SetLevelRequest } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../mcp-logger.js';
+import { BaseRequestHandler } from './base-request-handler.js';
 
-export class CoreRequestHandler {
-  private childClient: Client | null = null;
-
-  constructor(childClient: Client | null) {
-    this.childClient = childClient;
-  }
-
-  /**
-   * Update the child client reference
-   */
-  updateChildClient(client: Client | null): void {
-    this.childClient = client;
-  }
-
+export class CoreRequestHandler extends BaseRequestHandler {
   /**
    * Handle ping request
    */
   async handlePing(_request: PingRequest): Promise<{}> {
-    if (!this.childClient) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        'Child server not available'
-      );
-    }
+    const childClient = await this.acquireChildClient('ping');
 
     try {
-      const result = await this.childClient.ping();
+      const result = await childClient.ping();
       logger.debug('Ping successful', {}, 'PROXY-CORE');
       return result;
     } catch (error) {
@@ -48,4 +26,15 @@ export class CoreRequestHandler {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Handle logging/setLevel request so child log messages can be relayed at the requested level
+   */
+  async handleSetLevel(request: SetLevelRequest): Promise<{}> {
+    const childClient = await this.acquireChildClient('logging/setLevel');
+
+    const result = await childClient.setLoggingLevel(request.params.level);
+    logger.debug('Forwarded logging level to child', { level: request.params.level }, 'PROXY-CORE');
+    return result;
+  }
+}
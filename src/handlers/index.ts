@@ -4,8 +4,11 @@
  * Exports all MCP request handlers for use in the MCPProxy.
  */
 
+export { BaseRequestHandler } from './base-request-handler.js';
 export { ToolRequestHandler } from './tool-request-handler.js';
 export { ResourceRequestHandler } from './resource-request-handler.js';
 export { PromptRequestHandler } from './prompt-request-handler.js';
 export { CompletionRequestHandler } from './completion-request-handler.js';
-export { CoreRequestHandler } from './core-request-handler.js';
\ No newline at end of file
+export { CoreRequestHandler } from './core-request-handler.js';
+export { NotificationForwarder, type ChangedList } from './notification-forwarder.js';
+export { ChildRequestForwarder } from './child-request-forwarder.js';
\ No newline at end of file
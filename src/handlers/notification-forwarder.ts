@@ -0,0 +1,86 @@
+/**
+ * Notification Forwarder
+ *
+ * Relays notifications sent by the child server (list changes, resource updates and
+ * log messages) to the upstream clients. Progress is relayed per request, to the client
+ * that made it, by InFlightRequests. Only the active child is relayed;
+ * notifications from a child that is still starting or already retired are dropped.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  ToolListChangedNotificationSchema,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  LoggingMessageNotificationSchema,
+  ServerNotification
+} from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../mcp-logger.js';
+
+/** A child list whose changes are announced with a list_changed notification */
+export type ChangedList = 'tools' | 'prompts' | 'resources';
+
+export class NotificationForwarder {
+  private childClient: Client | null = null;
+  private readonly notify: (notification: ServerNotification) => Promise<void>;
+  private readonly handleListChanged: (client: Client, list: ChangedList) => Promise<void>;
+
+  constructor(
+    notify: (notification: ServerNotification) => Promise<void>,
+    handleListChanged: (client: Client, list: ChangedList) => Promise<void>
+  ) {
+    this.notify = notify;
+    this.handleListChanged = handleListChanged;
+  }
+
+  /**
+   * Update the active child client whose notifications are relayed
+   */
+  updateChildClient(client: Client | null): void {
+    this.childClient = client;
+  }
+
+  /**
+   * Register forwarding handlers on a child client. Call before connecting the client
+   * so notifications sent during startup are not lost.
+   */
+  attach(client: Client): void {
+    const listChanged = (list: ChangedList) => async (notification: ServerNotification) => {
+      if (client !== this.childClient) return;
+      // Refresh the mirrored list first so the client's follow-up request sees it
+      await this.handleListChanged(client, list);
+      await this.forward(client, notification);
+    };
+
+    client.setNotificationHandler(ToolListChangedNotificationSchema, listChanged('tools'));
+    client.setNotificationHandler(PromptListChangedNotificationSchema, listChanged('prompts'));
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, listChanged('resources'));
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) =>
+      this.forward(client, notification)
+    );
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) =>
+      this.forward(client, notification)
+    );
+  }
+
+  /**
+   * Send a child notification to the upstream clients
+   */
+  private async forward(client: Client, notification: ServerNotification): Promise<void> {
+    if (client !== this.childClient) {
+      logger.debug('Dropping notification from inactive child', { method: notification.method }, 'PROXY-NOTIFY');
+      return;
+    }
+
+    try {
+      await this.notify(notification);
+      logger.debug('Forwarded child notification', { method: notification.method }, 'PROXY-NOTIFY');
+    } catch (error) {
+      logger.debug('Failed to forward child notification', {
+        method: notification.method,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'PROXY-NOTIFY');
+    }
+  }
+}
@@ -4,45 +4,29 @@
  * Handles MCP prompt-related requests by forwarding them to the child server.
  */
 
-import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { 
-  ErrorCode, 
-  McpError,
   ListPromptsRequest,
+  ListPromptsResult,
   GetPromptRequest,
-  Prompt,
   GetPromptResult
 } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../mcp-logger.js';
+import type { UpstreamRequestExtra } from '../in-flight-requests.js';
+import { BaseRequestHandler } from './base-request-handler.js';
 
-export class PromptRequestHandler {
-  private childClient: Client | null = null;
-
-  constructor(childClient: Client | null) {
-    this.childClient = childClient;
-  }
-
-  /**
-   * Update the child client reference
-   */
-  updateChildClient(client: Client | null): void {
-    this.childClient = client;
-  }
-
+export class PromptRequestHandler extends BaseRequestHandler {
   /**
-   * Handle list prompts request
+   * Handle list prompts request, passing the pagination cursor through
    */
-  async handleListPrompts(_request: ListPromptsRequest): Promise<{ prompts: Prompt[] }> {
-    if (!this.childClient) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        'Child server not available'
-      );
-    }
-
+  async handleListPrompts(request: ListPromptsRequest, extra?: UpstreamRequestExtra): Promise<ListPromptsResult> {
     try {
-      const result = await this.childClient.listPrompts();
-      logger.debug('Listed prompts', { count: result.prompts.length }, 'PROXY-PROMPT');
+      const result = await this.forwardToChild({ method: 'prompts/list' }, extra, (childClient, options) =>
+        childClient.listPrompts(request.params, options)
+      );
+      logger.debug('Listed prompts', { 
+        count: result.prompts.length,
+        hasMore: result.nextCursor !== undefined
+      }, 'PROXY-PROMPT');
       return result;
     } catch (error) {
       logger.debug('Failed to list prompts', { 
@@ -55,16 +39,11 @@ export class PromptRequestHandler {
   /**
    * Handle get prompt request
    */
-  async handleGetPrompt(request: GetPromptRequest): Promise<GetPromptResult> {
-    if (!this.childClient) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        'Child server not available'
-      );
-    }
-
+  async handleGetPrompt(request: GetPromptRequest, extra?: UpstreamRequestExtra): Promise<GetPromptResult> {
     try {
-      const result = await this.childClient.getPrompt(request.params);
+      const result = await this.forwardToChild({ method: 'prompts/get' }, extra, (childClient, options) =>
+        childClient.getPrompt(request.params, options)
+      );
       logger.debug('Got prompt', { name: request.params.name }, 'PROXY-PROMPT');
       return result;
     } catch (error) {
@@ -75,4 +54,4 @@ export class PromptRequestHandler {
       throw error;
     }
   }
-}
\ No newline at end of file
+}
@@ -2,49 +2,67 @@
  * Resource Request Handler
  * 
  * Handles MCP resource-related requests by forwarding them to the child server.
+ * Keeps a registry of subscribed URIs per client session so subscriptions can be
+ * re-established on a new child after a restart and updates routed to subscribers.
  */
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { 
-  ErrorCode, 
-  McpError,
   ListResourcesRequest,
+  ListResourcesResult,
+  ListResourceTemplatesRequest,
+  ListResourceTemplatesResult,
   ReadResourceRequest,
-  Resource
+  SubscribeRequest,
+  UnsubscribeRequest,
+  ErrorCode,
+  McpError
 } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../mcp-logger.js';
+import type { UpstreamRequestExtra } from '../in-flight-requests.js';
+import { BaseRequestHandler } from './base-request-handler.js';
 
-export class ResourceRequestHandler {
-  private childClient: Client | null = null;
-
-  constructor(childClient: Client | null) {
-    this.childClient = childClient;
-  }
+export class ResourceRequestHandler extends BaseRequestHandler {
+  /** Subscribed resource URIs and the client sessions subscribed to each */
+  private readonly subscriptions = new Map<string, Set<Server>>();
 
   /**
-   * Update the child client reference
+   * Handle list resources request, passing the pagination cursor through
    */
-  updateChildClient(client: Client | null): void {
-    this.childClient = client;
+  async handleListResources(request: ListResourcesRequest, extra?: UpstreamRequestExtra): Promise<ListResourcesResult> {
+    try {
+      const result = await this.forwardToChild({ method: 'resources/list' }, extra, (childClient, options) =>
+        childClient.listResources(request.params, options)
+      );
+      logger.debug('Listed resources', { 
+        count: result.resources.length,
+        hasMore: result.nextCursor !== undefined
+      }, 'PROXY-RESOURCE');
+      return result;
+    } catch (error) {
+      logger.debug('Failed to list resources', { 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      }, 'PROXY-RESOURCE');
+      throw error;
+    }
   }
 
   /**
-   * Handle list resources request
+   * Handle list resource templates request, passing the pagination cursor through
    */
-  async handleListResources(_request: ListResourcesRequest): Promise<{ resources: Resource[] }> {
-    if (!this.childClient) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        'Child server not available'
-      );
-    }
-
+  async handleListResourceTemplates(request: ListResourceTemplatesRequest, extra?: UpstreamRequestExtra): Promise<ListResourceTemplatesResult> {
     try {
-      const result = await this.childClient.listResources();
-      logger.debug('Listed resources', { count: result.resources.length }, 'PROXY-RESOURCE');
+      const result = await this.forwardToChild({ method: 'resources/templates/list' }, extra, (childClient, options) =>
+        childClient.listResourceTemplates(request.params, options)
+      );
+      logger.debug('Listed resource templates', { 
+        count: result.resourceTemplates.length,
+        hasMore: result.nextCursor !== undefined
+      }, 'PROXY-RESOURCE');
       return result;
     } catch (error) {
-      logger.debug('Failed to list resources', { 
+      logger.debug('Failed to list resource templates', { 
         error: error instanceof Error ? error.message : 'Unknown error' 
       }, 'PROXY-RESOURCE');
       throw error;
@@ -54,16 +72,11 @@ export class ResourceRequestHandler {
   /**
    * Handle read resource request
    */
-  async handleReadResource(request: ReadResourceRequest): Promise<{ contents: any[] }> {
-    if (!this.childClient) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        'Child server not available'
-      );
-    }
-
+  async handleReadResource(request: ReadResourceRequest, extra?: UpstreamRequestExtra): Promise<{ contents: any[] }> {
     try {
-      const result = await this.childClient.readResource(request.params);
+      const result = await this.forwardToChild({ method: 'resources/read' }, extra, (childClient, options) =>
+        childClient.readResource(request.params, options)
+      );
       logger.debug('Read resource', { uri: request.params.uri }, 'PROXY-RESOURCE');
       return result;
     } catch (error) {
@@ -74,4 +87,108 @@ export class ResourceRequestHandler {
       throw error;
     }
   }
+
+  /**
+   * Handle subscribe request. The child is only subscribed once per URI,
+   * however many client sessions subscribe to it.
+   */
+  async handleSubscribe(request: SubscribeRequest, session: Server, extra?: UpstreamRequestExtra): Promise<Record<string, never>> {
+    const { uri } = request.params;
+    const subscribers = this.subscriptions.get(uri);
+
+    if (!subscribers) {
+      try {
+        await this.forwardToChild({ method: 'resources/subscribe' }, extra, (childClient, options) =>
+          childClient.subscribeResource(request.params, options)
+        );
+      } catch (error) {
+        logger.debug('Failed to subscribe to resource', { 
+          uri,
+          error: error instanceof Error ? error.message : 'Unknown error' 
+        }, 'PROXY-RESOURCE');
+        throw error;
+      }
+    }
+
+    // Another session may have subscribed while the child request was in flight
+    const current = this.subscriptions.get(uri) ?? new Set<Server>();
+    current.add(session);
+    this.subscriptions.set(uri, current);
+    logger.debug('Subscribed to resource', { uri, subscribers: current.size }, 'PROXY-RESOURCE');
+    return {};
+  }
+
+  /**
+   * Handle unsubscribe request. The child is unsubscribed when the last session leaves.
+   */
+  async handleUnsubscribe(request: UnsubscribeRequest, session: Server, extra?: UpstreamRequestExtra): Promise<Record<string, never>> {
+    await this.removeSubscriber(request.params.uri, session, extra);
+    return {};
+  }
+
+  /**
+   * Drop all subscriptions of a client session that disconnected
+   */
+  async removeSession(session: Server): Promise<void> {
+    for (const [uri, subscribers] of [...this.subscriptions]) {
+      if (subscribers.has(session)) {
+        await this.removeSubscriber(uri, session).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Client sessions subscribed to a resource URI
+   */
+  getSubscribers(uri: string): Server[] {
+    return [...(this.subscriptions.get(uri) ?? [])];
+  }
+
+  /**
+   * Subscribe a newly started child to every registered URI. URIs the child rejects
+   * are logged and stay registered for the next restart; a lost connection throws.
+   */
+  async resubscribe(client: Client): Promise<void> {
+    for (const uri of this.subscriptions.keys()) {
+      try {
+        await client.subscribeResource({ uri });
+        logger.debug('Re-subscribed to resource', { uri }, 'PROXY-RESOURCE');
+      } catch (error) {
+        // A child that went away can't serve; one that rejects a URI (e.g. a deleted file) still can
+        if (error instanceof McpError && error.code === ErrorCode.ConnectionClosed) {
+          throw error;
+        }
+        logger.warn('Failed to re-subscribe to resource after restart', { 
+          uri,
+          error: error instanceof Error ? error.message : 'Unknown error' 
+        }, 'PROXY-RESOURCE');
+      }
+    }
+  }
+
+  private async removeSubscriber(uri: string, session: Server, extra?: UpstreamRequestExtra): Promise<void> {
+    const subscribers = this.subscriptions.get(uri);
+    if (!subscribers?.delete(session) || subscribers.size > 0) {
+      return;
+    }
+
+    this.subscriptions.delete(uri);
+    if (!this.childClient && !this.requestQueue?.isPaused()) {
+      // A child started later is not subscribed to URIs that left the registry
+      return;
+    }
+
+    try {
+      await this.forwardToChild({ method: 'resources/unsubscribe' }, extra, (childClient, options) =>
+        childClient.unsubscribeResource({ uri }, options)
+      );
+      logger.debug('Unsubscribed from resource', { uri }, 'PROXY-RESOURCE');
+    } catch (error) {
+      logger.debug('Failed to unsubscribe from resource', { 
+        uri,
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      }, 'PROXY-RESOURCE');
+      throw error;
+    }
+  }
 }
\ No newline at end of file
@@ -9,34 +9,46 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { 
   Tool, 
   CallToolResult, 
-  ErrorCode, 
-  McpError,
   ListToolsRequest,
-  CallToolRequest
+  CallToolRequest,
+  CallToolResultSchema,
+  ErrorCode,
+  McpError
 } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../mcp-logger.js';
 import { PROXY_TOOLS } from '../constants.js';
+import { RESTART_SERVER_TOOL } from '../types.js';
+import type { RequestQueue } from '../request-queue.js';
+import type { InFlightRequests, UpstreamRequestExtra } from '../in-flight-requests.js';
+import { formatSchemaErrors, SchemaValidator } from '../schema-validator.js';
+import { BaseRequestHandler } from './base-request-handler.js';
 
-export class ToolRequestHandler {
+/** How tool calls are checked against the mirrored tools' schemas */
+export interface ToolValidationOptions {
+  /** Reject calls whose arguments violate the tool's inputSchema instead of forwarding them */
+  strictArguments?: boolean;
+  /** Fail calls whose result violates the tool's outputSchema instead of only logging it */
+  strictOutput?: boolean;
+}
+
+export class ToolRequestHandler extends BaseRequestHandler {
   private childTools: Tool[] = [];
-  private childClient: Client | null = null;
-  private handleRestartServer: (args: unknown) => Promise<CallToolResult>;
+  private handleRestartServer: (args: Record<string, unknown> | undefined) => Promise<CallToolResult>;
+  private readonly validation: ToolValidationOptions;
+  private readonly schemaValidator = new SchemaValidator();
 
   constructor(
     childClient: Client | null,
     childTools: Tool[],
-    handleRestartServer: (args: unknown) => Promise<CallToolResult>
+    handleRestartServer: (args: Record<string, unknown> | undefined) => Promise<CallToolResult>,
+    requestQueue?: RequestQueue,
+    inFlightRequests?: InFlightRequests,
+    validation: ToolValidationOptions = {}
   ) {
-    this.childClient = childClient;
+    super(childClient, requestQueue, inFlightRequests);
     this.childTools = childTools;
     this.handleRestartServer = handleRestartServer;
-  }
-
-  /**
-   * Update the child client reference
-   */
-  updateChildClient(client: Client | null): void {
-    this.childClient = client;
+    this.validation = validation;
   }
 
   /**
@@ -47,7 +59,8 @@ export class ToolRequestHandler {
   }
 
   /**
-   * Handle list tools request
+   * Handle list tools request. The mirrored tools already span every page of the
+   * child's tools/list, so the full list is returned as a single page.
    */
   async handleListTools(_request: ListToolsRequest): Promise<{ tools: Tool[] }> {
     const allTools = [
@@ -59,9 +72,12 @@ export class ToolRequestHandler {
   }
 
   /**
-   * Handle call tool request
+   * Handle call tool request. Cancelling the call cancels it on the child, and the
+   * child's progress is reported against the caller's progress token. Results that
+   * violate the tool's outputSchema are logged, or fail the call with strictOutput;
+   * with strictArguments, arguments that violate its inputSchema are rejected.
    */
-  async handleCallTool(request: CallToolRequest): Promise<CallToolResult> {
+  async handleCallTool(request: CallToolRequest, extra?: UpstreamRequestExtra): Promise<CallToolResult> {
     const { name, arguments: args } = request.params;
     const startTime = Date.now();
 
@@ -76,16 +92,16 @@ export class ToolRequestHandler {
       return result;
     }
 
-    // Forward to child
-    if (!this.childClient) {
-      throw new McpError(
-        ErrorCode.InternalError,
-        'Child server not available'
-      );
-    }
+    this.validateArguments(name, args);
 
     try {
-      const result = await this.childClient.callTool(request.params);
+      // Forward to child, waiting for it if a restart is in progress
+      // Sent as a plain request: callTool applies the SDK's own outputSchema check,
+      // which always throws and only knows the schemas of the last tools/list page
+      const result = await this.forwardToChild({ method: 'tools/call', tool: name }, extra, (childClient, options) =>
+        childClient.request({ method: 'tools/call', params: request.params }, CallToolResultSchema, options)
+      );
+      this.checkStructuredContent(name, result as CallToolResult);
       logger.debug(`Tool call completed: ${name}`, { 
         duration_ms: Date.now() - startTime,
         success: true 
@@ -100,33 +116,49 @@ export class ToolRequestHandler {
     }
   }
 
+  /**
+   * Reject arguments that violate the mirrored tool's inputSchema. Tools the proxy
+   * doesn't know are left for the child to reject.
+   */
+  private validateArguments(name: string, args: unknown): void {
+    const tool = this.validation.strictArguments && this.childTools.find(tool => tool.name === name);
+    if (!tool) return;
+
+    const errors = this.schemaValidator.validateArguments(tool, args);
+    if (errors.length === 0) return;
+
+    logger.debug(`Rejected arguments for tool ${name}`, { errors }, 'PROXY-TOOL');
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for tool ${name}:\n${formatSchemaErrors(errors)}`,
+      { errors }
+    );
+  }
+
+  /**
+   * Report a result whose structuredContent violates the mirrored tool's outputSchema
+   */
+  private checkStructuredContent(name: string, result: CallToolResult): void {
+    const tool = this.childTools.find(tool => tool.name === name);
+    if (!tool) return;
+
+    const errors = this.schemaValidator.validateStructuredContent(tool, result);
+    if (errors.length === 0) return;
+
+    logger.warn(`Tool ${name} returned a result that violates its outputSchema`, { errors }, 'PROXY-TOOL');
+    if (this.validation.strictOutput) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Tool ${name} returned a result that violates its outputSchema:\n${formatSchemaErrors(errors)}`,
+        { errors }
+      );
+    }
+  }
+
   /**
    * Get the restart_server tool definition
    */
   private getRestartServerTool(): Tool {
-    return {
-      name: PROXY_TOOLS.RESTART_SERVER,
-      description: 'Restart the MCP server with optional configuration updates',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          force: {
-            type: 'boolean',
-            description: 'Force restart even if one is already in progress',
-            default: false
-          },
-          childCommand: {
-            type: 'string',
-            description: 'New command to run (optional)'
-          },
-          childArgs: {
-            type: 'array',
-            items: { type: 'string' },
-            description: 'New command arguments (optional)'
-          }
-        },
-        additionalProperties: false
-      }
-    };
+    return RESTART_SERVER_TOOL;
   }
 }
\ No newline at end of file
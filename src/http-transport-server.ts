@@ -0,0 +1,382 @@
+/**
+ * HttpTransportServer - Serves the proxy to upstream clients over Streamable HTTP, with the
+ * legacy HTTP+SSE transport as a fallback for older clients. Every client session gets its
+ * own MCP Server instance from the session factory; all sessions share the one child server.
+ * Host and Origin headers are checked so web pages can't reach the proxy through DNS rebinding.
+ */
+
+import { createServer, type IncomingMessage, type Server as NodeHttpServer, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './mcp-logger.js';
+import { HTTP_TRANSPORT_DEFAULTS } from './constants.js';
+import { connectServer } from './protocol-version.js';
+
+/** Options for the HTTP transport server */
+export interface HttpTransportServerOptions {
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+  /** Interface to bind */
+  host: string;
+  /** Host header values to accept (default: the bound host and port, plus loopback aliases) */
+  allowedHosts?: string[] | undefined;
+  /** Origin header values to accept from browsers (default: the origins of the allowed hosts) */
+  allowedOrigins?: string[] | undefined;
+  /** Create the MCP server that handles a new client session; it is connected to the given transport next */
+  createSession: (transport: Transport) => Server;
+}
+
+/** Bind addresses reachable as any of these names */
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/** Bind addresses that accept connections on every interface */
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+/** Put IPv6 addresses in brackets, as they appear in Host headers */
+function formatHost(host: string): string {
+  return host.includes(':') ? `[${host}]` : host;
+}
+
+/** A connected client session */
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** Set once the session must re-initialize; its next request ends it */
+  expired?: boolean;
+}
+
+/**
+ * HTTP listener routing Streamable HTTP and legacy SSE traffic to per-session MCP servers.
+ */
+export class HttpTransportServer {
+  private readonly options: HttpTransportServerOptions;
+  private readonly sessions = new Map<string, HttpSession>();
+  private httpServer: NodeHttpServer | null = null;
+  /** Accepted Host headers; null accepts any (a wildcard bind without allowedHosts) */
+  private allowedHosts: string[] | null = null;
+  private allowedOrigins: string[] = [];
+
+  constructor(options: HttpTransportServerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start listening for client connections
+   */
+  async start(): Promise<void> {
+    const httpServer = createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    this.resolveAllowedHeaders();
+    logger.info('HTTP transport listening', {
+      url: this.getUrl(),
+      sseUrl: this.getUrl(HTTP_TRANSPORT_DEFAULTS.SSE_PATH),
+      allowedHosts: this.allowedHosts ?? 'any',
+      allowedOrigins: this.allowedOrigins
+    }, 'HTTP');
+    if (!this.allowedHosts) {
+      logger.warn(`Listening on ${this.options.host} without --allowed-hosts; any Host header is accepted`, undefined, 'HTTP');
+    }
+  }
+
+  /**
+   * Close all client sessions and stop listening
+   */
+  async close(): Promise<void> {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+
+    for (const session of sessions) {
+      try {
+        await session.server.close();
+      } catch (error) {
+        logger.debug('Error closing client session', { error }, 'HTTP');
+      }
+    }
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      // Open SSE streams would otherwise keep the listener alive
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Get the URL of an endpoint on this server
+   */
+  getUrl(path: string = HTTP_TRANSPORT_DEFAULTS.MCP_PATH): string {
+    const address = this.httpServer?.address() as AddressInfo | null | undefined;
+    const port = address?.port ?? this.options.port;
+    return `http://${this.options.host}:${port}${path}`;
+  }
+
+  /**
+   * Make every current session re-initialize: its next request is answered with
+   * 404, which tells Streamable HTTP clients to start a new session. Sessions are
+   * not closed right away so responses already in flight are still delivered.
+   */
+  expireSessions(): void {
+    for (const session of this.sessions.values()) {
+      session.expired = true;
+    }
+    logger.info('Client sessions expired', { count: this.sessions.size }, 'HTTP');
+  }
+
+  /** Number of connected client sessions */
+  sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const rejection = this.validateHeaders(req);
+      if (rejection) {
+        logger.warn('Rejected HTTP request', { method: req.method, url: req.url, reason: rejection }, 'HTTP');
+        this.sendError(res, 403, ErrorCode.InvalidRequest, rejection);
+        return;
+      }
+
+      const url = new URL(req.url ?? '/', 'http://localhost');
+
+      switch (url.pathname) {
+        case HTTP_TRANSPORT_DEFAULTS.MCP_PATH:
+          await this.handleStreamableRequest(req, res);
+          break;
+        case HTTP_TRANSPORT_DEFAULTS.SSE_PATH:
+          await this.handleSseConnect(req, res);
+          break;
+        case HTTP_TRANSPORT_DEFAULTS.MESSAGES_PATH:
+          await this.handleSseMessage(req, res, url);
+          break;
+        default:
+          this.sendError(res, 404, ErrorCode.InvalidRequest, 'Not found');
+      }
+    } catch (error) {
+      logger.error('Error handling HTTP request', {
+        method: req.method,
+        url: req.url,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'HTTP');
+      if (!res.headersSent) {
+        this.sendError(res, 500, ErrorCode.InternalError, 'Internal server error');
+      }
+    }
+  }
+
+  /**
+   * Streamable HTTP: POST/GET/DELETE on one endpoint, sessions identified by the mcp-session-id header
+   */
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await this.readJsonBody(req);
+      } catch (error) {
+        this.sendError(res, 400, ErrorCode.ParseError,
+          `Parse error: ${error instanceof Error ? error.message : 'Invalid JSON'}`);
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendError(res, 404, ErrorCode.InvalidRequest, 'Session not found');
+        return;
+      }
+      if (session.expired) {
+        await this.endExpiredSession(sessionId, session, res);
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendError(res, 400, ErrorCode.InvalidRequest, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      ...this.transportHeaderOptions(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport });
+        logger.info('Client session started', { sessionId: id, transport: 'streamable-http' }, 'HTTP');
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.removeSession(transport.sessionId);
+      }
+    };
+    const server = this.options.createSession(transport);
+
+    await connectServer(server, transport);
+    try {
+      await transport.handleRequest(req, res, body);
+    } finally {
+      if (!transport.sessionId) {
+        // The transport rejected the initialize request, so no session will use this server
+        logger.debug('Initialize request rejected, closing its server', undefined, 'HTTP');
+        await server.close().catch((error: unknown) => {
+          logger.debug('Error closing client session', { error }, 'HTTP');
+        });
+      }
+    }
+  }
+
+  /**
+   * Legacy SSE: a GET opens the event stream, which announces the message endpoint for the session
+   */
+  private async handleSseConnect(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      this.sendError(res, 405, ErrorCode.InvalidRequest, 'Method not allowed');
+      return;
+    }
+
+    const transport = new SSEServerTransport(HTTP_TRANSPORT_DEFAULTS.MESSAGES_PATH, res, this.transportHeaderOptions());
+    const server = this.options.createSession(transport);
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { server, transport });
+    transport.onclose = () => this.removeSession(sessionId);
+
+    await connectServer(server, transport);
+    logger.info('Client session started', { sessionId, transport: 'sse' }, 'HTTP');
+  }
+
+  /**
+   * Legacy SSE: client-to-server messages are POSTed with the session id in the query string
+   */
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+    if (req.method !== 'POST') {
+      this.sendError(res, 405, ErrorCode.InvalidRequest, 'Method not allowed');
+      return;
+    }
+
+    const sessionId = url.searchParams.get('sessionId');
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      this.sendError(res, 404, ErrorCode.InvalidRequest, 'Session not found');
+      return;
+    }
+    if (session.expired) {
+      await this.endExpiredSession(sessionId!, session, res);
+      return;
+    }
+
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  private async endExpiredSession(sessionId: string, session: HttpSession, res: ServerResponse): Promise<void> {
+    this.removeSession(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.debug('Error closing client session', { error }, 'HTTP');
+    }
+    this.sendError(res, 404, ErrorCode.InvalidRequest, 'Session expired, re-initialize');
+  }
+
+  /**
+   * Work out the accepted Host and Origin headers once the port is known. Requests
+   * without an Origin header (clients other than browsers) are not affected by the
+   * origin list; a browser page on another origin is.
+   */
+  private resolveAllowedHeaders(): void {
+    const address = this.httpServer?.address() as AddressInfo | null | undefined;
+    const port = address?.port ?? this.options.port;
+    const host = this.options.host;
+    const hosts = LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : [host];
+
+    this.allowedHosts = this.options.allowedHosts
+      ?? (WILDCARD_HOSTS.includes(host) ? null : hosts.map(name => `${formatHost(name)}:${port}`));
+    this.allowedOrigins = this.options.allowedOrigins
+      ?? (this.allowedHosts ?? []).map(allowed => `http://${allowed}`);
+  }
+
+  /**
+   * Describe why a request's Host or Origin header is not accepted, or return null
+   */
+  private validateHeaders(req: IncomingMessage): string | null {
+    const host = req.headers.host;
+    if (this.allowedHosts && (!host || !this.allowedHosts.includes(host))) {
+      return `Invalid Host header: ${host ?? '(none)'}`;
+    }
+    const origin = req.headers.origin;
+    if (origin !== undefined && !this.allowedOrigins.includes(origin)) {
+      return `Invalid Origin header: ${origin}`;
+    }
+    return null;
+  }
+
+  /**
+   * The SDK transports' own DNS rebinding check for the same hosts. Origins are left to
+   * validateHeaders, since the SDK also rejects requests that have no Origin header.
+   */
+  private transportHeaderOptions(): { enableDnsRebindingProtection: boolean; allowedHosts?: string[] } {
+    return this.allowedHosts
+      ? { enableDnsRebindingProtection: true, allowedHosts: this.allowedHosts }
+      : { enableDnsRebindingProtection: false };
+  }
+
+  private removeSession(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      logger.info('Client session closed', { sessionId }, 'HTTP');
+    }
+  }
+
+  private readJsonBody(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > HTTP_TRANSPORT_DEFAULTS.MAX_BODY_SIZE) {
+          reject(new Error(`Request body exceeds ${HTTP_TRANSPORT_DEFAULTS.MAX_BODY_SIZE} bytes`));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+
+      req.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch (error) {
+          reject(error);
+        }
+      });
+
+      req.on('error', reject);
+    });
+  }
+
+  private sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    }));
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * InFlightRequests - Tracks client requests forwarded to the child server so that
+ * cancellation travels downstream and progress upstream across both hops, and so a
+ * restart can cancel whatever the retiring child is still working on. Forwarded
+ * requests are held to the proxy's timeout, with per-tool overrides, and to a total
+ * limit when progress keeps extending them.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { RequestHandlerExtra, RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { ErrorCode, McpError, type ServerNotification, type ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './mcp-logger.js';
+import { PROXY_SPECIFIC_ERROR_CODES } from './errors.js';
+import { REQUEST_TIMEOUT_DEFAULTS } from './constants.js';
+
+/** Context the MCP server passes to a request handler */
+export type UpstreamRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** The request being forwarded */
+export interface ForwardTarget {
+  /** MCP method (e.g. tools/call) */
+  method: string;
+  /** Tool name for tools/call, used for per-tool timeouts */
+  tool?: string;
+}
+
+/** Time limits for forwarded requests */
+export interface InFlightRequestsOptions {
+  /** Time in milliseconds a forwarded request may take */
+  requestTimeout: number;
+  /** Per-tool overrides of requestTimeout, keyed by tool name */
+  toolTimeouts?: Record<string, number>;
+  /**
+   * Time in milliseconds a request may take in total while progress keeps restarting
+   * its timeout; never shorter than the request's own timeout
+   */
+  maxTotalTimeout?: number;
+}
+
+/**
+ * Registry of forwarded requests per child client.
+ * The SDK maps request IDs on each hop: aborting the child request sends
+ * notifications/cancelled with the child's request ID, and progress for the
+ * child's progress token is delivered to onprogress.
+ */
+export class InFlightRequests {
+  private readonly options: InFlightRequestsOptions;
+  private readonly requests = new Map<Client, Set<AbortController>>();
+
+  constructor(options: InFlightRequestsOptions = { requestTimeout: REQUEST_TIMEOUT_DEFAULTS.TIMEOUT_MS }) {
+    this.options = options;
+  }
+
+  /**
+   * Time in milliseconds a request may take before the proxy cancels it
+   */
+  getTimeout(target: ForwardTarget): number {
+    return (target.tool !== undefined ? this.options.toolTimeouts?.[target.tool] : undefined)
+      ?? this.options.requestTimeout;
+  }
+
+  /**
+   * Forward a request to the child. The child request is cancelled when the client
+   * cancels or the timeout passes, and the child's progress is reported against the
+   * client's progress token.
+   */
+  async forward<T>(
+    client: Client,
+    target: ForwardTarget,
+    extra: UpstreamRequestExtra | undefined,
+    send: (options: RequestOptions) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    const cancel = () => controller.abort(extra?.signal.reason);
+    if (extra?.signal.aborted) {
+      cancel();
+    } else {
+      extra?.signal.addEventListener('abort', cancel, { once: true });
+    }
+
+    const progressToken = extra?._meta?.progressToken;
+    const timeout = this.getTimeout(target);
+    const resetsOnProgress = extra !== undefined && progressToken !== undefined;
+    // Progress alone must not keep a request alive forever
+    const totalTimeout = Math.max(timeout, this.options.maxTotalTimeout ?? REQUEST_TIMEOUT_DEFAULTS.MAX_TOTAL_MS);
+    const totalTimeoutReason = new McpError(ErrorCode.RequestTimeout, 'Maximum total timeout exceeded');
+    const totalTimer = resetsOnProgress
+      ? setTimeout(() => controller.abort(totalTimeoutReason), totalTimeout)
+      : undefined;
+    const options: RequestOptions = {
+      signal: controller.signal,
+      // The SDK cancels the child request with notifications/cancelled when this passes
+      timeout,
+      ...(resetsOnProgress && {
+        // The timeout restarts whenever the child reports progress
+        resetTimeoutOnProgress: true,
+        onprogress: (progress) => {
+          extra.sendNotification({
+            method: 'notifications/progress',
+            params: { ...progress, progressToken }
+          }).catch((error: unknown) => {
+            logger.debug('Failed to relay progress', { error }, 'PROXY-NOTIFY');
+          });
+        }
+      })
+    };
+
+    const active = this.requests.get(client) ?? new Set<AbortController>();
+    this.requests.set(client, active.add(controller));
+    const startTime = Date.now();
+    try {
+      return await send(options);
+    } catch (error) {
+      // The SDK's timeout, as opposed to a cancellation by the client or a restart
+      if (error instanceof McpError && error.code === ErrorCode.RequestTimeout && !controller.signal.aborted) {
+        throw this.timeoutError(target, timeout, Date.now() - startTime);
+      }
+      if (controller.signal.reason === totalTimeoutReason) {
+        throw this.timeoutError(target, totalTimeout, Date.now() - startTime, true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(totalTimer);
+      extra?.signal.removeEventListener('abort', cancel);
+      active.delete(controller);
+      if (active.size === 0) {
+        this.requests.delete(client);
+      }
+    }
+  }
+
+  /** Number of requests in flight on a child client */
+  count(client: Client): number {
+    return this.requests.get(client)?.size ?? 0;
+  }
+
+  /**
+   * Cancel every request in flight on a child client; the child is sent
+   * notifications/cancelled and the requests fail with the given error
+   */
+  cancelAll(client: Client, reason: Error): void {
+    const active = this.requests.get(client);
+    if (!active) return;
+
+    logger.info('Cancelling requests in flight on the child server', {
+      count: active.size,
+      reason: reason.message
+    });
+    for (const controller of [...active]) {
+      controller.abort(reason);
+    }
+  }
+
+  private timeoutError(target: ForwardTarget, timeout: number, elapsedMs: number, total = false): McpError {
+    const request = target.tool !== undefined ? `tool ${target.tool}` : target.method;
+    logger.warn('Child server request timed out', { method: target.method, tool: target.tool, elapsedMs, timeout, total });
+    return new McpError(
+      PROXY_SPECIFIC_ERROR_CODES.CHILD_TIMEOUT,
+      total
+        ? `Child server did not finish ${request} within the total limit of ${timeout}ms despite reporting progress (cancelled after ${elapsedMs}ms)`
+        : `Child server did not answer ${request} within ${timeout}ms (cancelled after ${elapsedMs}ms)`,
+      { method: target.method, ...(target.tool !== undefined && { tool: target.tool }), elapsedMs, timeout }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * JsonDiff - Structural comparison of JSON values, reporting each difference
+ * at the JSON pointer where it occurs.
+ */
+
+/** A value that differs between two JSON documents */
+export interface JsonDifference {
+  /** JSON pointer (RFC 6901) to the differing value; '' is the document root */
+  path: string;
+  /** Value in the expected document (absent if only the actual document has it) */
+  expected?: unknown;
+  /** Value in the actual document (absent if only the expected document has it) */
+  actual?: unknown;
+}
+
+/**
+ * Escape a key for use as a JSON pointer segment
+ */
+function escapePointerSegment(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * List the differences between two JSON values. Object key order is ignored, array order is not.
+ */
+export function diffJson(expected: unknown, actual: unknown, path = ''): JsonDifference[] {
+  if (Object.is(expected, actual)) {
+    return [];
+  }
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const differences: JsonDifference[] = [];
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      const itemPath = `${path}/${i}`;
+      if (i >= actual.length) {
+        differences.push({ path: itemPath, expected: expected[i] });
+      } else if (i >= expected.length) {
+        differences.push({ path: itemPath, actual: actual[i] });
+      } else {
+        differences.push(...diffJson(expected[i], actual[i], itemPath));
+      }
+    }
+    return differences;
+  }
+
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const differences: JsonDifference[] = [];
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of [...keys].sort()) {
+      const keyPath = `${path}/${escapePointerSegment(key)}`;
+      if (!(key in actual)) {
+        differences.push({ path: keyPath, expected: expected[key] });
+      } else if (!(key in expected)) {
+        differences.push({ path: keyPath, actual: actual[key] });
+      } else {
+        differences.push(...diffJson(expected[key], actual[key], keyPath));
+      }
+    }
+    return differences;
+  }
+
+  return [{ path, expected, actual }];
+}
+
+/**
+ * Format differences as a readable diff, one line each: `-` removed, `+` added, `~` changed
+ */
+export function formatDifferences(differences: JsonDifference[]): string {
+  return differences.map(({ path, ...values }) => {
+    const location = path || '/';
+    if (!('actual' in values)) {
+      return `- ${location}: ${JSON.stringify(values.expected)}`;
+    }
+    if (!('expected' in values)) {
+      return `+ ${location}: ${JSON.stringify(values.actual)}`;
+    }
+    return `~ ${location}: ${JSON.stringify(values.expected)} -> ${JSON.stringify(values.actual)}`;
+  }).join('\n');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
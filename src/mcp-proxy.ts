@@ -3,13 +3,16 @@
  * 
  * A transparent proxy that enables hot-reloading of MCP servers during development
  * while maintaining client session state. Supports the full MCP protocol including
- * tools, resources, prompts, completion, sampling, and ping.
+ * tools, resources, prompts, completion and ping, and relays sampling, roots and
+ * elicitation requests from the child to the client.
  */
 
+import type { ChildProcess } from 'child_process';
+import { resolve } from 'path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   // Tools
   ListToolsRequestSchema,
@@ -19,41 +22,103 @@ import {
   GetPromptRequestSchema,
   // Resources
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   // Completion
   CompleteRequestSchema,
-  // Sampling
-  CreateMessageRequestSchema,
+  // Roots
+  RootsListChangedNotificationSchema,
   // Core
   PingRequestSchema,
+  SetLevelRequestSchema,
   // Types
+  ClientCapabilities,
+  InitializeResult,
+  ServerCapabilities,
+  ServerNotification,
   Tool,
   CallToolResult,
   ErrorCode,
-  McpError
+  McpError,
+  LATEST_PROTOCOL_VERSION
 } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from './mcp-logger.js';
-import { MCP_PROTOCOL, PROXY_TOOLS } from './constants.js';
-import type { ProxyConfig } from './types.js';
+import { BUILD_DEFAULTS, MCP_PROTOCOL, PROXY_TOOLS, REQUEST_QUEUE_DEFAULTS, REQUEST_TIMEOUT_DEFAULTS, HTTP_TRANSPORT_DEFAULTS, REMOTE_CHILD_DEFAULTS } from './constants.js';
+import {
+  ProcessState,
+  ProxyErrorCode,
+  RESTART_SERVER_SCHEMA,
+  type ProxyConfig,
+  type ProxyConfigUpdate
+} from './types.js';
+import { Config } from './config.js';
+import { ProxyErrorExtended, isProxyError, PROXY_SPECIFIC_ERROR_CODES } from './errors.js';
+import { FileWatcher } from './file-watcher.js';
+import { runBuildCommand, type BuildResult } from './build-runner.js';
+import { RequestQueue } from './request-queue.js';
+import { InFlightRequests } from './in-flight-requests.js';
+import { ProcessManager } from './process-manager.js';
+import { ChildProcessTransport } from './child-process-transport.js';
+import { DeferredServerTransport } from './deferred-server-transport.js';
+import { HttpTransportServer } from './http-transport-server.js';
+import { connectRemoteClient, closeRemoteClient } from './remote-client-transport.js';
+import { TrafficRecorder } from './traffic-recorder.js';
+import { listPromptsAndResources } from './capability-snapshot.js';
+import {
+  diffCatalogs,
+  formatCapabilityChanges,
+  hasChanges,
+  type CapabilityCatalog,
+  type CapabilityChanges
+} from './capability-changes.js';
+import { CapabilityAugmenter } from './capability-augmenter.js';
+import { connectClient, connectServer, getProtocolVersion, translateServerCapabilities } from './protocol-version.js';
 import {
   ToolRequestHandler,
   ResourceRequestHandler,
   PromptRequestHandler,
   CompletionRequestHandler,
-  CoreRequestHandler
+  CoreRequestHandler,
+  NotificationForwarder,
+  ChildRequestForwarder,
+  type ChangedList
 } from './handlers/index.js';
 
 /**
  * Production-ready Reloaderoo with full protocol support
  */
 export class MCPProxy {
-  private readonly config: ProxyConfig;
-  private readonly server: Server;
+  private config: ProxyConfig;
+  /** One MCP server per connected client session (a single one for stdio) */
+  private readonly servers = new Set<Server>();
+  private httpTransport: HttpTransportServer | null = null;
   private childClient: Client | null = null;
-  private childTransport: StdioClientTransport | null = null;
+  private processManager: ProcessManager | null = null;
   private isShuttingDown = false;
   private restartInProgress = false;
   private childTools: Tool[] = [];
+  /** What the current child offers, compared across restarts */
+  private childCatalog: CapabilityCatalog | null = null;
+  /** The child's initialize result as presented to client sessions */
+  private initializeResult: InitializeResult | null = null;
+  private readonly capabilityAugmenter = new CapabilityAugmenter();
+  private fileWatcher: FileWatcher | null = null;
+  private pendingWatchChange: string | null = null;
+  /** Aborts the build or restart command that is running, so shutdown doesn't leave it behind */
+  private shellCommandController: AbortController | null = null;
+  private readonly requestQueue: RequestQueue;
+  private readonly inFlightRequests: InFlightRequests;
+  private readonly recorder: TrafficRecorder | null;
+  /** Generation of the most recently created child client; each restart adds one */
+  private childGeneration = 0;
+  private readonly childGenerations = new WeakMap<Client, number>();
+  /** Sampling, roots and elicitation support each child client was created with */
+  private readonly childClientCapabilities = new WeakMap<Client, ClientCapabilities>();
+  /** Proxies that have not been stopped; one pair of signal listeners serves them all */
+  private static readonly activeProxies = new Set<MCPProxy>();
+  private static readonly signalHandler = (signal: NodeJS.Signals): void => void MCPProxy.handleShutdown(signal);
   
   // Request handlers
   private toolHandler: ToolRequestHandler;
@@ -61,61 +126,119 @@ export class MCPProxy {
   private promptHandler: PromptRequestHandler;
   private completionHandler: CompletionRequestHandler;
   private coreHandler: CoreRequestHandler;
+  private notificationForwarder: NotificationForwarder;
+  private childRequestForwarder: ChildRequestForwarder;
 
   constructor(config: ProxyConfig) {
     this.config = config;
-    
-    // Create proxy server with full capabilities
-    this.server = new Server(
-      {
-        name: `${this.extractServerName()}-dev`,
-        version: '1.0.0-dev'
-      },
-      {
-        capabilities: {
-          tools: { listChanged: true },
-          prompts: { listChanged: true },
-          resources: { subscribe: true, listChanged: true },
-          completion: { argument: true },
-          sampling: {}
-        }
-      }
-    );
+
+    // Requests arriving during a restart are parked here and replayed on the new child,
+    // so they wait out the build and the restart command as well as the child's start
+    this.requestQueue = new RequestQueue({
+      maxSize: config.maxQueuedRequests ?? REQUEST_QUEUE_DEFAULTS.MAX_SIZE,
+      timeout: config.operationTimeout
+        + (config.buildCommand ? config.buildTimeout ?? BUILD_DEFAULTS.TIMEOUT_MS : 0)
+        + (config.restartCommand ? config.operationTimeout : 0)
+    });
+    // Forwarded requests are tracked for cancellation, progress and timeouts
+    this.inFlightRequests = new InFlightRequests({
+      requestTimeout: config.requestTimeout ?? REQUEST_TIMEOUT_DEFAULTS.TIMEOUT_MS,
+      ...(config.toolTimeouts && { toolTimeouts: config.toolTimeouts }),
+      ...(config.maxTotalTimeout !== undefined && { maxTotalTimeout: config.maxTotalTimeout })
+    });
+    this.recorder = config.recordFile ? new TrafficRecorder(config.recordFile) : null;
 
     // Initialize request handlers
     this.toolHandler = new ToolRequestHandler(
       this.childClient,
       this.childTools,
-      this.handleRestartServer.bind(this)
+      this.handleRestartServer.bind(this),
+      this.requestQueue,
+      this.inFlightRequests,
+      {
+        ...(config.strictArguments && { strictArguments: true }),
+        ...(config.strictOutput && { strictOutput: true })
+      }
+    );
+    this.resourceHandler = new ResourceRequestHandler(this.childClient, this.requestQueue, this.inFlightRequests);
+    this.promptHandler = new PromptRequestHandler(this.childClient, this.requestQueue, this.inFlightRequests);
+    this.completionHandler = new CompletionRequestHandler(this.childClient, this.requestQueue, this.inFlightRequests);
+    this.coreHandler = new CoreRequestHandler(this.childClient, this.requestQueue);
+    this.notificationForwarder = new NotificationForwarder(
+      this.forwardChildNotification.bind(this),
+      this.refreshChildList.bind(this)
     );
-    this.resourceHandler = new ResourceRequestHandler(this.childClient);
-    this.promptHandler = new PromptRequestHandler(this.childClient);
-    this.completionHandler = new CompletionRequestHandler(this.childClient);
-    this.coreHandler = new CoreRequestHandler(this.childClient);
+    this.childRequestForwarder = new ChildRequestForwarder(() => this.servers);
 
-    this.setupRequestHandlers();
     this.setupErrorHandling();
   }
 
   /**
-   * Start the proxy and connect to child server
+   * Start the proxy and connect to child server. In stdio mode the child is started once
+   * the client sends initialize, and the client session is served over the given transport
+   * instead of the process's stdio, if one is passed.
    */
-  async start(): Promise<void> {
-    logger.info('Starting Reloaderoo', {
-      childCommand: this.config.childCommand,
-      childArgs: this.config.childArgs
-    });
+  async start(clientTransport?: Transport): Promise<void> {
+    logger.info('Starting Reloaderoo', this.config.childUrl
+      ? { childUrl: this.config.childUrl }
+      : { childCommand: this.config.childCommand, childArgs: this.config.childArgs });
+
+    this.recorder?.open();
 
-    // Start child server first
-    await this.startChildServer();
+    if (this.config.transport === 'http') {
+      // Sessions connect later; the child is offered what they support from its next restart
+      await this.startChildServer();
 
-    // Connect proxy server to stdio
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+      // Serve any number of client sessions over HTTP, all sharing the child
+      this.httpTransport = new HttpTransportServer({
+        port: this.config.port ?? HTTP_TRANSPORT_DEFAULTS.PORT,
+        host: this.config.host ?? HTTP_TRANSPORT_DEFAULTS.HOST,
+        allowedHosts: this.config.allowedHosts,
+        allowedOrigins: this.config.allowedOrigins,
+        createSession: (transport) => {
+          this.recorder?.attachClient(transport);
+          return this.createServer();
+        }
+      });
+      await this.httpTransport.start();
+    } else {
+      await this.startStdioSession(clientTransport ?? new StdioServerTransport());
+    }
+
+    // Restart automatically on source changes when watching is enabled
+    this.startFileWatcher();
     
     logger.info('Reloaderoo started successfully');
   }
 
+  /**
+   * Serve the single stdio client session. The child is started once the client's initialize
+   * request has arrived, so it is offered exactly the sampling, roots and elicitation support
+   * the client declares, and the request is then answered with the child's capabilities.
+   */
+  private async startStdioSession(clientTransport: Transport): Promise<void> {
+    const transport = new DeferredServerTransport(clientTransport);
+    this.recorder?.attachClient(transport);
+    const initialize = await transport.receiveInitialize();
+
+    // The child may ask the client for roots or sampling before the session is initialized
+    let sessionReady!: () => void;
+    this.childRequestForwarder.waitForSession(new Promise<void>(resolve => { sessionReady = resolve; }));
+    try {
+      await this.startChildServer(initialize.params.capabilities);
+      const server = this.createServer();
+      const oninitialized = server.oninitialized;
+      server.oninitialized = () => {
+        oninitialized?.();
+        sessionReady();
+      };
+      await connectServer(server, transport);
+    } catch (error) {
+      sessionReady();
+      throw error;
+    }
+  }
+
   /**
    * Stop the proxy and cleanup resources
    */
@@ -124,241 +247,852 @@ export class MCPProxy {
     this.isShuttingDown = true;
 
     logger.info('Stopping Reloaderoo');
+    this.removeErrorHandling();
 
     try {
+      this.fileWatcher?.close();
+      this.fileWatcher = null;
+      this.shellCommandController?.abort();
+      this.requestQueue.rejectAll(new McpError(
+        PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE,
+        'Proxy is shutting down'
+      ));
       await this.stopChildServer();
-      await this.server.close();
+      await this.httpTransport?.close();
+      for (const server of [...this.servers]) {
+        await server.close();
+      }
     } catch (error) {
       logger.error('Error during shutdown', { error });
     }
   }
 
   /**
-   * Start or restart the child MCP server
+   * Start or restart the child MCP server using a blue/green swap.
+   * The replacement is initialized and its capabilities mirrored before the
+   * current child is retired, so a failed start leaves the old child serving.
+   * A remote child (childUrl) gets a new connection instead of a new process.
+   * Returns how the child's tools, prompts and resources changed (null for the first child).
+   * initializingClient is the capabilities of a client session whose initialize is being answered.
    */
-  private async startChildServer(): Promise<void> {
-    await this.stopChildServer();
+  private async startChildServer(initializingClient?: ClientCapabilities): Promise<CapabilityChanges | null> {
+    logger.info('Starting child MCP server', this.config.childUrl
+      ? { url: this.config.childUrl }
+      : { command: this.config.childCommand, args: this.config.childArgs });
 
-    logger.info('Starting child MCP server', {
-      command: this.config.childCommand,
-      args: this.config.childArgs
-    });
+    // Each spawned child generation gets its own process manager for crash detection
+    const processManager = this.config.childUrl ? null : new ProcessManager(this.config);
+    if (processManager) {
+      this.watchProcessManager(processManager);
+    }
+    const client = this.createChildClient(initializingClient);
 
-    // Create transport and client for child communication
-    // This will spawn the child process automatically
-    this.childTransport = new StdioClientTransport({
-      command: this.config.childCommand,
-      args: this.config.childArgs,
-      env: this.config.environment
+    // Everything up to the swap rolls back to the current child if it fails
+    let catalog: CapabilityCatalog;
+    try {
+      catalog = await this.withTimeout(
+        this.prepareChild(client, () => processManager
+          ? this.spawnChild(processManager, client)
+          : this.connectRemoteChild(client, this.config.childUrl!)),
+        this.config.operationTimeout,
+        `Child server did not initialize within ${this.config.operationTimeout}ms`
+      );
+    } catch (error) {
+      logger.error('Child server failed to start, rolling back', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        previousChildActive: this.childClient !== null
+      });
+      await this.closeChild(client, processManager);
+      throw error;
+    }
+
+    // Swap in the new child, then retire the previous one
+    const previousClient = this.childClient;
+    const previousProcessManager = this.processManager;
+
+    this.childClient = client;
+    this.processManager = processManager;
+    this.childTools = catalog.tools;
+    this.recorder?.setGeneration(this.childGenerations.get(client) ?? 0);
+    this.updateHandlersWithChildClient();
+    this.mirrorInitializeResult(client);
+    const changes = this.swapChildCatalog(catalog);
+
+    logger.debug('Mirrored child capabilities', {
+      toolCount: this.childTools.length,
+      toolNames: this.childTools.map(t => t.name)
     });
 
-    this.childClient = new Client(
+    if (previousClient) {
+      // Work the old child still has in flight is cancelled there instead of cut off
+      this.inFlightRequests.cancelAll(previousClient, new McpError(
+        PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE,
+        'Child server restarted before the request completed'
+      ));
+    }
+    await this.closeChild(previousClient, previousProcessManager);
+
+    // Notify about capability changes if this is a restart
+    if (this.restartInProgress) {
+      await this.notifyCapabilityChanges(changes);
+      this.restartInProgress = false;
+    }
+
+    logger.info('Connected to child MCP server successfully', { protocolVersion: getProtocolVersion(client) });
+    return changes;
+  }
+
+  /**
+   * Create the MCP client used to talk to a child server
+   */
+  private createChildClient(initializingClient?: ClientCapabilities): Client {
+    // Only offer the child what the upstream clients can actually serve
+    const capabilities = this.childRequestForwarder.getChildCapabilities(initializingClient);
+
+    const client = new Client(
       {
         name: 'reloaderoo',
         version: '1.0.0'
       },
-      {
-        capabilities: {
-          tools: {},
-          prompts: {},
-          resources: {},
-          completion: {},
-          sampling: {}
+      { capabilities }
+    );
+
+    this.notificationForwarder.attach(client);
+    this.childRequestForwarder.attach(client, capabilities);
+    this.childGenerations.set(client, ++this.childGeneration);
+    this.childClientCapabilities.set(client, capabilities);
+    return client;
+  }
+
+  /**
+   * Spawn a child process and connect a client to it without touching the active child
+   */
+  private async spawnChild(processManager: ProcessManager, client: Client): Promise<Tool[]> {
+    await processManager.spawn();
+    return this.connectChild(processManager, client);
+  }
+
+  /**
+   * Connect a client to a child server running as an HTTP service and fetch its tools.
+   * The service may still be coming up (e.g. after the restart command), so connection
+   * attempts are retried every restartDelay until the operation timeout.
+   */
+  private async connectRemoteChild(client: Client, url: string): Promise<Tool[]> {
+    const deadline = Date.now() + this.config.operationTimeout;
+    const retryDelay = Math.max(this.config.restartDelay, REMOTE_CHILD_DEFAULTS.MIN_RETRY_DELAY);
+
+    for (;;) {
+      try {
+        const transport = await connectRemoteClient(client, url, (connecting) =>
+          this.recordChildTraffic(client, connecting)
+        );
+        logger.debug('Connected to remote child server', { url, transport });
+        break;
+      } catch (error) {
+        if (Date.now() + retryDelay >= deadline || this.isShuttingDown) {
+          throw error;
         }
+        logger.debug('Remote child server not reachable yet, retrying', {
+          url,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        await new Promise(resolve => setTimeout(resolve, retryDelay));
       }
-    );
+    }
+
+    return this.fetchChildTools(client);
+  }
+
+  /**
+   * Connect a client to the process managed by the given process manager and fetch its tools
+   */
+  private async connectChild(processManager: ProcessManager, client: Client): Promise<Tool[]> {
+    const childProcess = processManager.getChildProcess();
+    if (!childProcess) {
+      throw new ProxyErrorExtended(ProxyErrorCode.CHILD_START_FAILED, 'Child process is not running');
+    }
+
+    this.captureChildStderr(childProcess);
+    const transport = new ChildProcessTransport(childProcess);
+    this.recordChildTraffic(client, transport);
+    await connectClient(client, transport);
+    return this.fetchChildTools(client);
+  }
+
+  /**
+   * Record the traffic of a child client's transport when recording is enabled
+   */
+  private recordChildTraffic(client: Client, transport: Transport): void {
+    this.recorder?.attachChild(transport, this.childGenerations.get(client) ?? 0);
+  }
+
+  /**
+   * Forward child stderr output to the logger
+   */
+  private captureChildStderr(childProcess: ChildProcess): void {
+    childProcess.stderr?.on('data', (data: Buffer) => {
+      const output = data.toString().trim();
+      if (output) {
+        logger.info(output, undefined, 'CHILD-MCP');
+      }
+    });
+  }
+
+  /**
+   * Follow crash and recovery events of a child generation's process manager.
+   * Events from retired generations are ignored.
+   */
+  private watchProcessManager(processManager: ProcessManager): void {
+    processManager.on('error', (error) => {
+      logger.debug('Child process error', { error: error.message });
+    });
 
-    // Connect to child via stdio
-    await this.childClient.connect(this.childTransport);
+    processManager.on('crashed', (exitCode, signal, crashCount) => {
+      if (processManager !== this.processManager || this.isShuttingDown) return;
+      void this.handleChildExit(exitCode, signal, crashCount);
+    });
+
+    processManager.on('stopped', (exitCode, signal) => {
+      // Retired generations are detached before they are terminated, so this exit was not requested
+      if (processManager !== this.processManager || this.isShuttingDown) return;
+      void this.handleChildExit(exitCode, signal, 0);
+    });
+
+    processManager.on('restarted', () => {
+      void this.handleChildRecovered(processManager);
+    });
+
+    processManager.on('restart-failed', (error) => {
+      if (processManager !== this.processManager || this.isShuttingDown) return;
+      this.handleChildRecoveryFailed(processManager, error);
+    });
+  }
+
+  /**
+   * Mark the child unavailable after it exited on its own.
+   * While the process manager restarts it with backoff, incoming requests are queued.
+   */
+  private async handleChildExit(exitCode: number | null, signal: string | null, crashCount: number): Promise<void> {
+    const willRestart = crashCount > 0 && this.config.autoRestart && crashCount <= this.config.restartLimit;
+
+    logger.warn('Child server exited unexpectedly', {
+      exitCode,
+      signal,
+      crashCount,
+      autoRestart: willRestart
+    });
+
+    const client = this.childClient;
+    this.childClient = null;
+    this.childTools = [];
+    this.updateHandlersWithChildClient();
+
+    if (willRestart) {
+      this.requestQueue.pause();
+    } else if (!this.restartInProgress) {
+      this.releaseQueuedRequests(new Error(`child exited with ${signal ?? `code ${exitCode}`}`));
+    }
+
+    await this.closeChild(client, null);
+  }
+
+  /**
+   * Reconnect to a child the process manager restarted after a crash,
+   * re-mirror its capabilities and tell the client they changed.
+   */
+  private async handleChildRecovered(processManager: ProcessManager): Promise<void> {
+    if (processManager !== this.processManager || this.isShuttingDown) {
+      // A retired generation finished a pending auto-restart; don't leave the process behind
+      await processManager.terminate().catch(() => undefined);
+      return;
+    }
 
-    // Try to access child process for stderr capture
+    const client = this.createChildClient();
+    let catalog: CapabilityCatalog;
     try {
-      // Check if transport exposes stderr stream
-      const transport = this.childTransport as any;
-      if (transport._stderrStream) {
-        logger.debug('Found child stderr stream, setting up capture', undefined, 'RELOADEROO');
-        transport._stderrStream.on('data', (data: Buffer) => {
-          const output = data.toString().trim();
-          if (output) {
-            logger.info(output, undefined, 'CHILD-MCP');
-          }
-        });
-      } else if (transport._process && transport._process.stderr) {
-        logger.debug('Found child process stderr, setting up capture', undefined, 'RELOADEROO');
-        transport._process.stderr.on('data', (data: Buffer) => {
-          const output = data.toString().trim();
-          if (output) {
-            logger.info(output, undefined, 'CHILD-MCP');
-          }
-        });
-      } else if (transport._process) {
-        logger.debug('Found _process property, setting up stderr capture', undefined, 'RELOADEROO');
-        transport._process.stderr.on('data', (data: Buffer) => {
-          const output = data.toString().trim();
-          if (output) {
-            logger.info(output, undefined, 'CHILD-MCP');
-          }
-        });
-      } else {
-        logger.debug('No stderr access available from transport', {
-          hasStderrStream: !!transport._stderrStream,
-          hasProcess: !!transport._process,
-          transportKeys: Object.keys(transport)
-        }, 'RELOADEROO');
+      catalog = await this.withTimeout(
+        this.prepareChild(client, () => this.connectChild(processManager, client)),
+        this.config.operationTimeout,
+        `Child server did not initialize within ${this.config.operationTimeout}ms`
+      );
+    } catch (error) {
+      logger.error('Restarted child server failed to initialize', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      await this.closeChild(client, null);
+      // Kill the unusable process so the process manager's backoff takes over
+      processManager.getChildProcess()?.kill('SIGKILL');
+      return;
+    }
+
+    if (processManager !== this.processManager || this.isShuttingDown) {
+      await this.closeChild(client, null);
+      return;
+    }
+
+    this.childClient = client;
+    this.childTools = catalog.tools;
+    this.recorder?.setGeneration(this.childGenerations.get(client) ?? 0);
+    this.updateHandlersWithChildClient();
+    this.mirrorInitializeResult(client);
+    const changes = this.swapChildCatalog(catalog);
+    processManager.markHealthy();
+
+    logger.info('Child server recovered after crash', { toolCount: catalog.tools.length });
+
+    await this.notifyCapabilityChanges(changes);
+    if (!this.restartInProgress) {
+      this.releaseQueuedRequests();
+    }
+  }
+
+  /**
+   * Fail queued requests once the process manager gives up restarting the child
+   */
+  private handleChildRecoveryFailed(processManager: ProcessManager, error: Error): void {
+    const state = processManager.getState();
+    if (state !== ProcessState.STOPPED && state !== ProcessState.UNAVAILABLE) {
+      // Another attempt is scheduled
+      return;
+    }
+
+    logger.error('Child server could not be restarted automatically', { error: error.message });
+    if (!this.restartInProgress) {
+      this.releaseQueuedRequests(error);
+    }
+  }
+
+  /**
+   * Reject with an OPERATION_TIMEOUT error if the promise does not settle in time
+   */
+  private async withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new ProxyErrorExtended(ProxyErrorCode.OPERATION_TIMEOUT, message)),
+        ms
+      );
+    });
+
+    try {
+      return await Promise.race([promise, timeoutPromise]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Restart the child server and notify the client about capability changes.
+   * With skipBuild the build command is skipped.
+   */
+  private async restartChildServer(
+    reason: string,
+    options: { skipBuild?: boolean } = {}
+  ): Promise<CapabilityChanges | null> {
+    logger.info('Restarting child MCP server', { reason });
+
+    this.restartInProgress = true;
+    this.requestQueue.pause();
+    try {
+      // A failed build throws here, before the running child is touched
+      if (!options.skipBuild) {
+        await this.runBuild();
       }
+      await this.runRestartCommand();
+      const changes = await this.startChildServer();
+      this.releaseQueuedRequests();
+      return changes;
     } catch (error) {
-      logger.debug('Error setting up stderr capture', { error }, 'RELOADEROO');
+      this.restartInProgress = false;
+      this.releaseQueuedRequests(error);
+      throw error;
+    } finally {
+      // Replay a file change that arrived while this restart was running
+      if (this.pendingWatchChange) {
+        const filePath = this.pendingWatchChange;
+        this.pendingWatchChange = null;
+        void this.handleFileChange(filePath, [filePath]);
+      }
+    }
+  }
+
+  /**
+   * Replay parked requests against the current child, or fail them if none is running
+   */
+  private releaseQueuedRequests(error?: unknown): void {
+    if (this.childClient) {
+      this.requestQueue.resume(this.childClient);
+      return;
+    }
+
+    const reason = error instanceof Error ? error.message : 'Child server not available';
+    this.requestQueue.rejectAll(new McpError(
+      PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE,
+      `Child server is not available: ${reason}`
+    ));
+  }
+
+  /**
+   * Run the configured build command, throwing a BUILD_FAILED error if it does not exit 0
+   */
+  private async runBuild(): Promise<void> {
+    if (this.config.buildCommand) {
+      await this.runShellCommand('Build', this.config.buildCommand, ProxyErrorCode.BUILD_FAILED,
+        this.config.buildTimeout ?? BUILD_DEFAULTS.TIMEOUT_MS);
+    }
+  }
+
+  /**
+   * Run the command that restarts a remote child's service, throwing a CHILD_START_FAILED
+   * error if it does not exit 0
+   */
+  private async runRestartCommand(): Promise<void> {
+    if (this.config.childUrl && this.config.restartCommand) {
+      await this.runShellCommand('Restart', this.config.restartCommand, ProxyErrorCode.CHILD_START_FAILED,
+        this.config.operationTimeout);
+    }
+  }
+
+  /**
+   * Run a shell command in the child's working directory, throwing the given error code
+   * with the command output as context if it does not exit 0 within the timeout
+   */
+  private async runShellCommand(label: string, command: string, errorCode: ProxyErrorCode, timeout: number): Promise<void> {
+    const controller = new AbortController();
+    this.shellCommandController = controller;
+    let result: BuildResult;
+    try {
+      result = await runBuildCommand(command, {
+        cwd: this.config.workingDirectory,
+        env: this.config.environment,
+        timeout,
+        signal: controller.signal,
+        label
+      });
+    } finally {
+      if (this.shellCommandController === controller) {
+        this.shellCommandController = null;
+      }
+    }
+
+    if (!result.success) {
+      const message = result.timedOut
+        ? `${label} command timed out after ${timeout}ms`
+        : `${label} command failed with exit code ${result.exitCode}`;
+
+      throw new ProxyErrorExtended(errorCode, message, {
+        context: {
+          command,
+          exitCode: result.exitCode,
+          duration: result.duration,
+          output: result.output
+        }
+      });
+    }
+  }
+
+  /**
+   * Start watching source files if watch patterns are configured
+   */
+  private startFileWatcher(): void {
+    const patterns = this.config.watchPatterns;
+    if (!patterns || patterns.length === 0) {
+      return;
     }
 
-    // Mirror child capabilities
-    await this.mirrorChildCapabilities();
+    this.fileWatcher = new FileWatcher({
+      rootDirectory: this.config.workingDirectory,
+      patterns,
+      ignorePatterns: this.config.watchIgnorePatterns,
+      debounceMs: this.config.watchDebounce
+    });
+
+    this.fileWatcher.on('change', (filePath, changedFiles) => {
+      void this.handleFileChange(filePath, changedFiles);
+    });
 
-    logger.info('Connected to child MCP server successfully');
+    this.fileWatcher.start();
+  }
+
+  /**
+   * Restart the child server after a watched file changed
+   */
+  private async handleFileChange(filePath: string, changedFiles: string[]): Promise<void> {
+    if (this.isShuttingDown) return;
+
+    if (this.restartInProgress) {
+      logger.debug('Restart in progress, deferring file change restart', { file: filePath }, 'WATCH');
+      this.pendingWatchChange = filePath;
+      return;
+    }
+
+    logger.info(`File change detected: ${filePath} - restarting child server`, {
+      changedFiles
+    }, 'WATCH');
+
+    try {
+      await this.restartChildServer(`file change: ${filePath}`);
+    } catch (error) {
+      logger.error('Automatic restart after file change failed', {
+        file: filePath,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, 'WATCH');
+    }
   }
 
   /**
    * Stop the child MCP server
    */
   private async stopChildServer(): Promise<void> {
-    if (this.childClient) {
+    const client = this.childClient;
+    const processManager = this.processManager;
+
+    this.childClient = null;
+    this.processManager = null;
+    this.childTools = [];
+    this.updateHandlersWithChildClient();
+
+    await this.closeChild(client, processManager);
+  }
+
+  /**
+   * Close a child client and terminate its process, ignoring errors
+   */
+  private async closeChild(client: Client | null, processManager: ProcessManager | null): Promise<void> {
+    if (client) {
       try {
-        await this.childClient.close();
+        await (this.config.childUrl ? closeRemoteClient(client) : client.close());
       } catch (error) {
         logger.debug('Error closing child client', { error });
       }
-      this.childClient = null;
-      this.childTools = [];
-      this.updateHandlersWithChildClient();
     }
 
-    if (this.childTransport) {
+    if (processManager) {
       try {
-        await this.childTransport.close();
+        await processManager.terminate();
       } catch (error) {
-        logger.debug('Error closing child transport', { error });
+        logger.debug('Error terminating child process', { error });
       }
-      this.childTransport = null;
     }
-
-    this.childTools = [];
   }
 
   /**
-   * Mirror tools and other capabilities from child server
+   * Fetch the tool list from a child server for mirroring, following nextCursor through every page
    */
-  private async mirrorChildCapabilities(): Promise<void> {
-    if (!this.childClient) {
-      throw new Error('Child client not connected');
-    }
-
+  private async fetchChildTools(client: Client): Promise<Tool[]> {
     try {
-      // Get tools from child
-      const toolsResult = await this.childClient.listTools();
+      const tools: Tool[] = [];
+      const seenCursors = new Set<string>();
+      let cursor: string | undefined;
 
-      this.childTools = toolsResult.tools || [];
-      
-      // Update handlers with new child client and tools
-      this.updateHandlersWithChildClient();
-      
-      logger.debug('Mirrored child capabilities', {
-        toolCount: this.childTools.length,
-        toolNames: this.childTools.map(t => t.name)
-      });
+      do {
+        const toolsResult = await client.listTools(cursor === undefined ? undefined : { cursor });
+        tools.push(...(toolsResult.tools || []));
+        cursor = toolsResult.nextCursor;
 
-      // Notify about capability changes if this is a restart
-      if (this.restartInProgress) {
-        await this.notifyCapabilityChanges();
-        this.restartInProgress = false;
-      }
+        // A child that hands out the same cursor twice would otherwise be paged forever
+        if (cursor !== undefined && seenCursors.has(cursor)) {
+          logger.warn('Child server repeated a tools/list cursor - stopping pagination', { cursor });
+          break;
+        }
+        if (cursor !== undefined) {
+          seenCursors.add(cursor);
+        }
+      } while (cursor !== undefined);
 
+      return tools;
     } catch (error) {
-      logger.error('Failed to mirror child capabilities', { error });
-      
       // If the child server doesn't support tools/list, continue anyway
       // This makes Reloaderoo compatible with incomplete MCP implementations
       if (error instanceof McpError && error.code === ErrorCode.MethodNotFound) {
         logger.warn('Child server does not support tools/list - continuing with empty tool list');
-        this.childTools = [];
-        this.updateHandlersWithChildClient();
-        
-        if (this.restartInProgress) {
-          this.restartInProgress = false;
-        }
-        return;
+        return [];
       }
-      
-      // For other errors, still throw to prevent startup with broken child
+
+      // For other errors, still throw to prevent swapping in a broken child
+      logger.error('Failed to mirror child capabilities', { error });
       throw error;
     }
   }
 
   /**
-   * Send notifications about capability changes after restart
+   * Re-mirror a list after the child reported that it changed, so the catalog the
+   * next restart is compared with stays current
    */
-  private async notifyCapabilityChanges(): Promise<void> {
+  private async refreshChildList(client: Client, list: ChangedList): Promise<void> {
     try {
-      // Notify tools changed
-      await this.server.notification({
-        method: MCP_PROTOCOL.NOTIFICATIONS.TOOLS_LIST_CHANGED
-      });
+      if (list === 'tools') {
+        const tools = await this.fetchChildTools(client);
+        if (client !== this.childClient) return;
 
-      // Notify other capabilities if supported
-      await this.server.notification({
-        method: MCP_PROTOCOL.NOTIFICATIONS.PROMPTS_LIST_CHANGED
-      });
+        this.childTools = tools;
+        this.toolHandler.updateChildTools(tools);
+        if (this.childCatalog) {
+          this.childCatalog = { ...this.childCatalog, tools };
+        }
+        logger.debug('Refreshed child tools after list change', {
+          toolCount: tools.length,
+          toolNames: tools.map(t => t.name)
+        });
+        return;
+      }
 
-      await this.server.notification({
-        method: MCP_PROTOCOL.NOTIFICATIONS.RESOURCES_LIST_CHANGED
-      });
+      const { prompts, resources, resourceTemplates } = await listPromptsAndResources(client);
+      if (client !== this.childClient || !this.childCatalog) return;
 
-      logger.debug('Sent capability change notifications');
+      this.childCatalog = list === 'prompts'
+        ? { ...this.childCatalog, prompts }
+        : { ...this.childCatalog, resources, resourceTemplates };
+      logger.debug(`Refreshed child ${list} after list change`);
     } catch (error) {
-      logger.debug('Error sending notifications', { error });
+      logger.warn(`Failed to refresh child ${list} after list change`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Present the child's initialize result (capabilities, server info, instructions)
+   * plus the restart tool to new client sessions. Capabilities are fixed for the
+   * life of a session, so sessions initialized against different ones are made
+   * to re-initialize where the transport allows it.
+   */
+  private mirrorInitializeResult(client: Client): void {
+    const instructions = client.getInstructions();
+    const protocolVersion = getProtocolVersion(client) ?? LATEST_PROTOCOL_VERSION;
+    const previous = this.initializeResult;
+
+    // The child's own version; each client session negotiates its version separately
+    this.initializeResult = this.capabilityAugmenter.augmentInitializeResult({
+      protocolVersion,
+      capabilities: translateServerCapabilities(client.getServerCapabilities() ?? {}),
+      serverInfo: client.getServerVersion() ?? { name: 'mcp-server', version: '1.0.0' },
+      ...(instructions && { instructions })
+    });
+
+    if (!previous || JSON.stringify(previous.capabilities) === JSON.stringify(this.initializeResult.capabilities)) {
+      return;
+    }
+
+    logger.info('Child server capabilities changed', {
+      previous: Object.keys(previous.capabilities),
+      current: Object.keys(this.initializeResult.capabilities)
+    });
+
+    if (this.httpTransport) {
+      // Clients start a new session once theirs is gone, picking up the new capabilities
+      this.httpTransport.expireSessions();
+    } else if (this.servers.size > 0) {
+      logger.warn('Reconnect the MCP client to use the changed capabilities; a stdio session cannot re-initialize');
+    }
+  }
+
+  /**
+   * Connect a new child, collect the tools, prompts and resources it offers
+   * and carry the resource subscriptions over, so it is ready to serve before it
+   * replaces the current child. Throws if connecting, listing tools or re-subscribing
+   * fails; prompts and resources the child can't list are mirrored as empty lists.
+   */
+  private async prepareChild(client: Client, connect: () => Promise<Tool[]>): Promise<CapabilityCatalog> {
+    const tools = await connect();
+    const catalog = {
+      tools,
+      ...await listPromptsAndResources(client, (list, error) => {
+        logger.warn(`Child server failed to list ${list} - continuing with an empty list`, {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      })
+    };
+
+    // Carry resource subscriptions over before the new child starts serving
+    await this.resourceHandler.resubscribe(client);
+    return catalog;
+  }
+
+  /**
+   * Mirror a new child's catalog, returning how it differs from the previous child's
+   */
+  private swapChildCatalog(catalog: CapabilityCatalog): CapabilityChanges | null {
+    const previous = this.childCatalog;
+    this.childCatalog = catalog;
+    return previous ? diffCatalogs(previous, catalog) : null;
+  }
+
+  /**
+   * Send list_changed notifications for the lists that changed after a restart,
+   * or for every list when there is nothing to compare with
+   */
+  private async notifyCapabilityChanges(changes: CapabilityChanges | null): Promise<void> {
+    const notifications = [
+      { method: MCP_PROTOCOL.NOTIFICATIONS.TOOLS_LIST_CHANGED, changed: !changes || hasChanges(changes.tools) },
+      { method: MCP_PROTOCOL.NOTIFICATIONS.PROMPTS_LIST_CHANGED, changed: !changes || hasChanges(changes.prompts) },
+      {
+        method: MCP_PROTOCOL.NOTIFICATIONS.RESOURCES_LIST_CHANGED,
+        changed: !changes || hasChanges(changes.resources) || hasChanges(changes.resourceTemplates)
+      }
+    ] as const;
+
+    for (const { method, changed } of notifications) {
+      if (changed) {
+        await this.broadcastNotification({ method });
+      }
+    }
+
+    logger.debug('Sent capability change notifications', {
+      methods: notifications.filter(n => n.changed).map(n => n.method)
+    });
+  }
+
+  /**
+   * Relay a child notification: resource updates go to the sessions subscribed
+   * to the resource, everything else to every session
+   */
+  private async forwardChildNotification(notification: ServerNotification): Promise<void> {
+    if (notification.method !== MCP_PROTOCOL.NOTIFICATIONS.RESOURCES_UPDATED) {
+      await this.broadcastNotification(notification);
+      return;
+    }
+
+    const subscribers = this.resourceHandler.getSubscribers(notification.params.uri);
+    if (subscribers.length === 0) {
+      logger.debug('Dropping update for unsubscribed resource', { uri: notification.params.uri }, 'PROXY-NOTIFY');
+    }
+    for (const server of subscribers) {
+      try {
+        await server.notification(notification);
+      } catch (error) {
+        logger.debug('Error sending notification', { method: notification.method, error });
+      }
+    }
+  }
+
+  /**
+   * Send a notification to every connected client session
+   */
+  private async broadcastNotification(notification: ServerNotification): Promise<void> {
+    for (const server of this.servers) {
+      try {
+        await server.notification(notification);
+      } catch (error) {
+        logger.debug('Error sending notification', { method: notification.method, error });
+      }
     }
   }
 
   /**
-   * Setup all MCP request handlers using dedicated handler classes
+   * Create the MCP server for a client session, wired to the shared request handlers
+   */
+  private createServer(): Server {
+    if (!this.initializeResult) {
+      throw new Error('Child server is not connected');
+    }
+
+    const { serverInfo, capabilities, instructions } = this.initializeResult;
+    const server = new Server(serverInfo, {
+      capabilities,
+      ...(instructions && { instructions })
+    });
+
+    this.setupRequestHandlers(server, capabilities);
+
+    server.onerror = (error) => {
+      logger.error('Proxy server error', { error });
+    };
+
+    server.oninitialized = () => {
+      logger.info('Client session initialized', {
+        client: server.getClientVersion()?.name,
+        clientProtocolVersion: getProtocolVersion(server),
+        childProtocolVersion: this.initializeResult?.protocolVersion
+      });
+
+      // The shared child isn't reconnected for one session; it is offered more from its next restart
+      const offered = this.childClient ? this.childClientCapabilities.get(this.childClient) : undefined;
+      const notOffered = Object.keys(this.childRequestForwarder.getChildCapabilities())
+        .filter(capability => !offered?.[capability as keyof ClientCapabilities]);
+      if (notOffered.length > 0) {
+        logger.info('Client supports capabilities the child was not offered; they are offered after the next restart', {
+          capabilities: notOffered
+        });
+      }
+    };
+
+    server.onclose = () => {
+      this.servers.delete(server);
+      void this.resourceHandler.removeSession(server);
+    };
+
+    this.servers.add(server);
+    return server;
+  }
+
+  /**
+   * Setup the MCP request handlers for the capabilities the session advertises,
+   * using dedicated handler classes
    */
-  private setupRequestHandlers(): void {
-    // Tools
-    this.server.setRequestHandler(ListToolsRequestSchema, (request) => 
+  private setupRequestHandlers(server: Server, capabilities: ServerCapabilities): void {
+    // Tools (always advertised for restart_server)
+    server.setRequestHandler(ListToolsRequestSchema, (request) => 
       this.toolHandler.handleListTools(request)
     );
-    this.server.setRequestHandler(CallToolRequestSchema, (request) => 
-      this.toolHandler.handleCallTool(request)
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) => 
+      this.toolHandler.handleCallTool(request, extra)
     );
     
     // Prompts
-    this.server.setRequestHandler(ListPromptsRequestSchema, (request) => 
-      this.promptHandler.handleListPrompts(request)
-    );
-    this.server.setRequestHandler(GetPromptRequestSchema, (request) => 
-      this.promptHandler.handleGetPrompt(request)
-    );
+    if (capabilities.prompts) {
+      server.setRequestHandler(ListPromptsRequestSchema, (request, extra) => 
+        this.promptHandler.handleListPrompts(request, extra)
+      );
+      server.setRequestHandler(GetPromptRequestSchema, (request, extra) => 
+        this.promptHandler.handleGetPrompt(request, extra)
+      );
+    }
     
     // Resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, (request) => 
-      this.resourceHandler.handleListResources(request)
-    );
-    this.server.setRequestHandler(ReadResourceRequestSchema, (request) => 
-      this.resourceHandler.handleReadResource(request)
-    );
+    if (capabilities.resources) {
+      server.setRequestHandler(ListResourcesRequestSchema, (request, extra) => 
+        this.resourceHandler.handleListResources(request, extra)
+      );
+      server.setRequestHandler(ListResourceTemplatesRequestSchema, (request, extra) => 
+        this.resourceHandler.handleListResourceTemplates(request, extra)
+      );
+      server.setRequestHandler(ReadResourceRequestSchema, (request, extra) => 
+        this.resourceHandler.handleReadResource(request, extra)
+      );
+    }
+    if (capabilities.resources?.subscribe) {
+      server.setRequestHandler(SubscribeRequestSchema, (request, extra) => 
+        this.resourceHandler.handleSubscribe(request, server, extra)
+      );
+      server.setRequestHandler(UnsubscribeRequestSchema, (request, extra) => 
+        this.resourceHandler.handleUnsubscribe(request, server, extra)
+      );
+    }
     
     // Completion
-    this.server.setRequestHandler(CompleteRequestSchema, (request) => 
-      this.completionHandler.handleComplete(request)
-    );
-    
-    // Sampling
-    this.server.setRequestHandler(CreateMessageRequestSchema, (request) => 
-      this.completionHandler.handleCreateMessage(request)
-    );
+    if (capabilities.completions) {
+      server.setRequestHandler(CompleteRequestSchema, (request, extra) => 
+        this.completionHandler.handleComplete(request, extra)
+      );
+    }
+
+    // Roots changes are relayed to a child that was offered roots
+    server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+      if (this.childClient && this.childClientCapabilities.get(this.childClient)?.roots?.listChanged) {
+        await this.childClient.sendRootsListChanged();
+      }
+    });
     
     // Core
-    this.server.setRequestHandler(PingRequestSchema, (request) => 
+    server.setRequestHandler(PingRequestSchema, (request) => 
       this.coreHandler.handlePing(request)
     );
+    if (capabilities.logging) {
+      server.setRequestHandler(SetLevelRequestSchema, (request) => 
+        this.coreHandler.handleSetLevel(request)
+      );
+    }
   }
 
   /**
@@ -371,6 +1105,7 @@ export class MCPProxy {
     this.promptHandler.updateChildClient(this.childClient);
     this.completionHandler.updateChildClient(this.childClient);
     this.coreHandler.updateChildClient(this.childClient);
+    this.notificationForwarder.updateChildClient(this.childClient);
   }
 
 
@@ -380,72 +1115,190 @@ export class MCPProxy {
 
 
   /**
-   * Handle restart_server tool call
+   * Handle restart_server tool call. With skipBuild the build command is skipped.
    */
-  private async handleRestartServer(args: any): Promise<CallToolResult> {
-    const force = args?.force || false;
+  private async handleRestartServer(args: Record<string, unknown> | undefined): Promise<CallToolResult> {
+    const force = args?.['force'] === true;
+    const skipBuild = args?.['skipBuild'] === true;
 
+    // A second restart would build and start another child alongside the one being swapped in
+    if (this.restartInProgress) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'A restart is already in progress. Call restart_server again once it has finished.'
+        }],
+        isError: true
+      };
+    }
+
+    // Validate configuration changes before the running child is touched
+    let restartConfig = this.config;
+    let update: ProxyConfigUpdate | undefined;
+    if (args?.['config'] !== undefined) {
+      const resolved = this.resolveConfigUpdate(args['config']);
+      if ('errors' in resolved) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Invalid restart configuration: ${resolved.errors.join('; ')}. The child server was not restarted.`
+          }],
+          isError: true
+        };
+      }
+      restartConfig = resolved.config;
+      update = resolved.update;
+    }
+
+    const previousConfig = this.config;
     try {
-      logger.info(`Executing ${PROXY_TOOLS.RESTART_SERVER} tool`, { force });
+      logger.info(`Executing ${PROXY_TOOLS.RESTART_SERVER} tool`, {
+        force,
+        skipBuild,
+        ...(update && { configUpdate: Object.keys(update) })
+      });
       
-      this.restartInProgress = true;
-      await this.startChildServer();
+      // The replacement child is started with the updated configuration
+      this.config = restartConfig;
+      const changes = await this.restartChildServer(`${PROXY_TOOLS.RESTART_SERVER} tool`, { skipBuild });
+      if (this.fileWatcher && this.config.workingDirectory !== previousConfig.workingDirectory) {
+        // Watch patterns are relative to the working directory, so follow the child there
+        this.fileWatcher.close();
+        this.fileWatcher = null;
+        this.startFileWatcher();
+      }
+
+      const restarted = this.config.childUrl
+        ? `Reconnected to child MCP server at ${this.config.childUrl}.`
+        : 'Child MCP server restarted successfully.';
+      const message = changes ? `${restarted}\n\n${formatCapabilityChanges(changes)}` : restarted;
 
       return {
         content: [{
           type: 'text',
-          text: 'Child MCP server restarted successfully. New capabilities have been loaded.'
+          text: update
+            ? `${message}\n\nApplied configuration:\n${this.formatAppliedConfig(update)}`
+            : message
         }]
       };
 
     } catch (error) {
-      this.restartInProgress = false;
+      // Later restarts keep using the configuration of the child that is still running
+      this.config = previousConfig;
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
       logger.error('Failed to restart child server', { error: errorMessage });
 
+      // Report compiler output so the agent can fix the build; the old child keeps serving
+      if (isProxyError(error) && error.code === ProxyErrorCode.BUILD_FAILED) {
+        const output = typeof error.context?.['output'] === 'string' ? error.context['output'] : '';
+        return {
+          content: [{
+            type: 'text',
+            text: `${errorMessage}. The child server was not restarted and is still running the previous build.` +
+                  (output ? `\n\n${output}` : '')
+          }],
+          isError: true
+        };
+      }
+
+      // Restart command output explains why a remote service did not come back
+      const output = isProxyError(error) && typeof error.context?.['output'] === 'string' ? error.context['output'] : '';
       return {
         content: [{
           type: 'text', 
-          text: `Failed to restart child server: ${errorMessage}`
+          text: `Failed to restart child server: ${errorMessage}` +
+                (this.childClient ? '\n\nThe previous child server is still running.' : '') +
+                (output ? `\n\n${output}` : '')
         }],
         isError: true
       };
     }
   }
 
+  /**
+   * Validate a restart_server config update with Config.updateConfig and
+   * return the configuration the replacement child should run with, along with the update
+   */
+  private resolveConfigUpdate(update: unknown): { config: ProxyConfig; update: ProxyConfigUpdate } | { errors: string[] } {
+    if (typeof update !== 'object' || update === null || Array.isArray(update)) {
+      return { errors: ['config must be an object'] };
+    }
+
+    const supportedKeys = Object.keys(RESTART_SERVER_SCHEMA.properties.config.properties);
+    const unsupportedKeys = Object.keys(update).filter(key => !supportedKeys.includes(key));
+    if (unsupportedKeys.length > 0) {
+      return { errors: [`Unsupported config keys: ${unsupportedKeys.join(', ')}. Supported: ${supportedKeys.join(', ')}`] };
+    }
+
+    const changes = { ...update } as ProxyConfigUpdate;
+    if (typeof changes.workingDirectory === 'string') {
+      // Relative paths are relative to the current child's working directory
+      changes.workingDirectory = resolve(this.config.workingDirectory, changes.workingDirectory);
+    }
+
+    const config = new Config();
+    const current = config.loadProxyConfig(this.config);
+    if (!current.valid) {
+      return { errors: current.errors.map(error => `current configuration is invalid: ${error}`) };
+    }
+
+    const result = config.updateConfig(changes);
+    if (!result.valid || !result.config) {
+      return { errors: result.errors };
+    }
+
+    const { childCommand, childArgs, environment, workingDirectory } = result.config;
+    return { config: { ...this.config, childCommand, childArgs, environment, workingDirectory }, update: changes };
+  }
+
+  /**
+   * Describe the configuration a restart_server update applied. Only the environment
+   * variables named in the update are listed, not the whole inherited environment.
+   */
+  private formatAppliedConfig(update: ProxyConfigUpdate): string {
+    return JSON.stringify({
+      ...(this.config.childUrl
+        ? { childUrl: this.config.childUrl }
+        : { childCommand: this.config.childCommand, childArgs: this.config.childArgs }),
+      workingDirectory: this.config.workingDirectory,
+      ...(update.environment && {
+        environment: Object.fromEntries(
+          Object.keys(update.environment).map(key => [key, this.config.environment[key]])
+        )
+      })
+    }, null, 2);
+  }
 
   /**
    * Setup error handling for the proxy
    */
   private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
-      logger.error('Proxy server error', { error });
-    };
-
-    process.on('SIGINT', () => this.handleShutdown('SIGINT'));
-    process.on('SIGTERM', () => this.handleShutdown('SIGTERM'));
+    if (MCPProxy.activeProxies.size === 0) {
+      process.on('SIGINT', MCPProxy.signalHandler);
+      process.on('SIGTERM', MCPProxy.signalHandler);
+    }
+    MCPProxy.activeProxies.add(this);
   }
 
   /**
-   * Handle process shutdown signals
+   * Stop handling process signals for this proxy, removing the listeners after the last one
    */
-  private async handleShutdown(signal: string): Promise<void> {
-    logger.info(`Received ${signal}, shutting down gracefully`);
-    await this.stop();
-    process.exit(0);
+  private removeErrorHandling(): void {
+    MCPProxy.activeProxies.delete(this);
+    if (MCPProxy.activeProxies.size === 0) {
+      process.off('SIGINT', MCPProxy.signalHandler);
+      process.off('SIGTERM', MCPProxy.signalHandler);
+    }
   }
 
   /**
-   * Extract server name from child command for proxy naming
+   * Handle process shutdown signals by stopping every running proxy
    */
-  private extractServerName(): string {
-    const command = this.config.childCommand;
-    if (!command || typeof command !== 'string') {
-      return 'mcp-server';
-    }
-    const parts = command.split(/[\\/]/);
-    const filename = parts[parts.length - 1] || 'mcp-server';
-    return filename.replace(/\.(js|ts|py|rb|go)$/, '') || 'mcp-server';
+  private static async handleShutdown(signal: NodeJS.Signals): Promise<void> {
+    logger.info(`Received ${signal}, shutting down gracefully`);
+    await Promise.all([...MCPProxy.activeProxies].map(proxy => proxy.stop()));
+    process.exit(0);
   }
 }
\ No newline at end of file
@@ -6,6 +6,7 @@ import { EventEmitter } from 'events';
 import { ChildProcess } from 'child_process';
 import { spawn } from 'cross-spawn';
 import { logger } from './mcp-logger.js';
+import { resolveChildCommand } from './config.js';
 import {
   ProxyConfig,
   ProxyConfigUpdate,
@@ -19,7 +20,7 @@ import {
 export interface ProcessManagerEvents {
   'started': [pid: number];
   'stopped': [exitCode: number | null, signal: string | null];
-  'crashed': [exitCode: number | null, signal: string | null, restartCount: number];
+  'crashed': [exitCode: number | null, signal: string | null, crashCount: number];
   'restarting': [reason: string];
   'restarted': [pid: number, restartTime: number];
   'restart-failed': [error: Error, restartCount: number];
@@ -38,6 +39,8 @@ interface ProcessManagerState {
   childProcess: ChildProcess | null;
   state: ProcessState;
   restartCount: number;
+  /** Consecutive crashes and failed restarts since the child was last marked healthy */
+  crashCount: number;
   lastRestartTime: number | null;
   isShuttingDown: boolean;
   restartTimeoutId: NodeJS.Timeout | null;
@@ -62,6 +65,7 @@ export class ProcessManager extends EventEmitter {
       childProcess: null,
       state: ProcessState.STOPPED,
       restartCount: 0,
+      crashCount: 0,
       lastRestartTime: null,
       isShuttingDown: false,
       restartTimeoutId: null,
@@ -180,12 +184,20 @@ export class ProcessManager extends EventEmitter {
             `Restart failed: ${error}`, { cause: error as Error });
 
       logger.error('Child process restart failed', { error: proxyError.message });
+      this.state.crashCount++;
+
+      // Settle the state before emitting so listeners can tell whether another attempt follows
+      const willRetry = this.config.autoRestart &&
+        this.state.restartCount < this.config.restartLimit &&
+        this.state.crashCount <= this.config.restartLimit;
+      if (!willRetry) {
+        this.setState(ProcessState.UNAVAILABLE);
+      }
       this.emit('restart-failed', proxyError, this.state.restartCount);
 
-      if (this.config.autoRestart && this.state.restartCount < this.config.restartLimit) {
+      if (willRetry) {
         this.scheduleAutoRestart('restart failure');
       } else {
-        this.setState(ProcessState.UNAVAILABLE);
         throw proxyError;
       }
     }
@@ -239,6 +251,22 @@ export class ProcessManager extends EventEmitter {
     return this.state.restartCount;
   }
 
+  /** Get the number of consecutive crashes since the child was last marked healthy */
+  getCrashCount(): number {
+    return this.state.crashCount;
+  }
+
+  /**
+   * Mark the running child as healthy, resetting the crash backoff.
+   * Spawning only proves the process started; callers confirm it actually serves requests.
+   */
+  markHealthy(): void {
+    if (this.state.crashCount > 0) {
+      logger.debug('Resetting crash count', { previousCount: this.state.crashCount });
+      this.state.crashCount = 0;
+    }
+  }
+
   /** Get the current child process instance (if any) */
   getChildProcess(): ChildProcess | null {
     return this.state.childProcess;
@@ -249,16 +277,19 @@ export class ProcessManager extends EventEmitter {
   private async spawnChildProcess(): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
-        const commandParts = this.config.childCommand.split(' ');
-        const command = commandParts[0];
-        if (!command) {
+        if (!this.config.childCommand) {
           throw new Error('Invalid child command');
         }
-        const args = commandParts.slice(1);
-        const allArgs = [...args, ...this.config.childArgs];
+        // childCommand is one executable (often a resolved path, which may contain spaces)
+        const { command, args, split } = resolveChildCommand(this.config.childCommand, this.config.childArgs);
+        if (split) {
+          logger.warn('childCommand contains arguments - put them in childArgs instead', {
+            childCommand: this.config.childCommand
+          });
+        }
         const env = { ...process.env, ...this.config.environment };
 
-        const childProcess = spawn(command, allArgs, {
+        const childProcess = spawn(command, args, {
           cwd: this.config.workingDirectory,
           env,
           stdio: ['pipe', 'pipe', 'pipe'],
@@ -324,14 +355,20 @@ export class ProcessManager extends EventEmitter {
     const isCrash = code !== 0 || (signal && signal !== 'SIGTERM');
     
     if (isCrash) {
-      logger.warn('Child process crashed', { code, signal, restartCount: this.state.restartCount });
+      this.state.crashCount++;
+      logger.warn('Child process crashed', { code, signal, crashCount: this.state.crashCount });
       this.setState(ProcessState.CRASHED);
-      this.emit('crashed', code, signal, this.state.restartCount);
+      this.emit('crashed', code, signal, this.state.crashCount);
 
-      if (this.config.autoRestart && this.state.restartCount < this.config.restartLimit) {
+      if (this.config.autoRestart && this.state.crashCount <= this.config.restartLimit) {
         this.scheduleAutoRestart('process crash');
       } else {
         this.setState(ProcessState.STOPPED);
+        if (this.config.autoRestart) {
+          this.emit('restart-failed', this.createError(ProxyErrorCode.RESTART_LIMIT_EXCEEDED,
+            `Child process crashed ${this.state.crashCount} times in a row, exceeding the restart limit (${this.config.restartLimit})`),
+            this.state.restartCount);
+        }
       }
     } else {
       logger.info('Child process exited normally', { code, signal });
@@ -343,9 +380,10 @@ export class ProcessManager extends EventEmitter {
   }
 
   private scheduleAutoRestart(reason: string): void {
-    const delay = this.calculateRestartDelay();
+    // Back off on consecutive crashes too, since a successful spawn resets restartCount
+    const delay = this.calculateRestartDelay(Math.max(this.state.restartCount, this.state.crashCount));
     
-    logger.info('Scheduling automatic restart', { reason, delay, attempt: this.state.restartCount + 1 });
+    logger.info('Scheduling automatic restart', { reason, delay, attempt: this.state.crashCount });
 
     this.state.restartTimeoutId = setTimeout(async () => {
       try {
@@ -357,13 +395,13 @@ export class ProcessManager extends EventEmitter {
     }, delay);
   }
 
-  private calculateRestartDelay(): number {
-    if (this.state.restartCount === 0) {
+  private calculateRestartDelay(attempts: number = this.state.restartCount): number {
+    if (attempts === 0) {
       return 0;
     }
     // Exponential backoff: baseDelay * 2^(attempts-1), capped at 30 seconds
     const baseDelay = this.config.restartDelay;
-    const exponentialDelay = baseDelay * Math.pow(2, this.state.restartCount - 1);
+    const exponentialDelay = baseDelay * Math.pow(2, attempts - 1);
     return Math.min(exponentialDelay, 30000);
   }
 
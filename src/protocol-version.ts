@@ -0,0 +1,106 @@
+/**
+ * Protocol version negotiation - the proxy negotiates the MCP spec revision with its
+ * upstream clients and with the child independently, so the two sides can be on
+ * different revisions. This module records what each connection negotiated and
+ * translates capabilities whose shape differs between revisions.
+ */
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  isInitializeRequest,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type RequestId,
+  type ServerCapabilities
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCP_PROTOCOL } from './constants.js';
+
+const negotiatedVersions = new WeakMap<Client | Server, string>();
+
+/**
+ * Connect a client, recording the protocol version the server agreed to
+ */
+export async function connectClient(client: Client, transport: Transport): Promise<void> {
+  // The SDK client hands the negotiated version to the transport after initialize
+  const setProtocolVersion = transport.setProtocolVersion?.bind(transport);
+  transport.setProtocolVersion = (version) => {
+    negotiatedVersions.set(client, version);
+    setProtocolVersion?.(version);
+  };
+  await client.connect(transport);
+}
+
+/**
+ * Connect a server, recording the protocol version it negotiates with its client.
+ * The SDK negotiates internally, so the initialize request is observed on its way in
+ * and the SDK's rule applied: the client's version if supported, otherwise the latest.
+ * The capabilities the server answers with are presented as of that version.
+ */
+export async function connectServer(server: Server, transport: Transport): Promise<void> {
+  let initializeId: RequestId | undefined;
+
+  // Server.connect chains an onmessage handler that is already set
+  const onmessage = transport.onmessage;
+  transport.onmessage = (message, extra) => {
+    if (isInitializeRequest(message)) {
+      const requested = message.params.protocolVersion;
+      negotiatedVersions.set(server, SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_PROTOCOL_VERSION);
+      if (isJSONRPCRequest(message)) {
+        initializeId = message.id;
+      }
+    }
+    onmessage?.(message, extra);
+  };
+
+  const send = transport.send.bind(transport);
+  transport.send = (message, options) => {
+    const version = negotiatedVersions.get(server);
+    if (initializeId !== undefined && version && isJSONRPCResponse(message) && message.id === initializeId) {
+      initializeId = undefined;
+      const capabilities = capabilitiesForVersion(message.result['capabilities'] as ServerCapabilities, version);
+      return send({ ...message, result: { ...message.result, capabilities } }, options);
+    }
+    return send(message, options);
+  };
+
+  await server.connect(transport);
+}
+
+/**
+ * Protocol version negotiated on a connection made with connectClient or connectServer
+ */
+export function getProtocolVersion(connection: Client | Server): string | undefined {
+  return negotiatedVersions.get(connection);
+}
+
+/**
+ * Present a server's capabilities under the keys of the current spec revision.
+ * Before the completions capability existed, some servers advertised completion/complete
+ * under the draft `completion` key. Servers that declared neither key get no completions,
+ * since clients would otherwise call a method the server doesn't implement.
+ */
+export function translateServerCapabilities(capabilities: ServerCapabilities): ServerCapabilities {
+  const { completion, ...translated } = capabilities;
+
+  if (!translated.completions && completion) {
+    translated.completions = {};
+  }
+  return translated;
+}
+
+/**
+ * Present current server capabilities to a client on an older spec revision, leaving out
+ * those its revision doesn't define. completions is the only server capability added
+ * since 2024-11-05, and older clients use completion/complete without it.
+ */
+export function capabilitiesForVersion(capabilities: ServerCapabilities, protocolVersion: string): ServerCapabilities {
+  if (protocolVersion >= MCP_PROTOCOL.COMPLETIONS_SINCE_VERSION) {
+    return capabilities;
+  }
+  const { completions: _completions, ...older } = capabilities;
+  return older;
+}
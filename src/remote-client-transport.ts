@@ -0,0 +1,78 @@
+/**
+ * RemoteClientTransport - Connects an MCP client to a server reachable over HTTP.
+ * Streamable HTTP is tried first; servers that reject it are retried over the
+ * legacy HTTP+SSE transport.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { logger } from './mcp-logger.js';
+import { connectClient } from './protocol-version.js';
+
+/** Transport a remote connection was established over */
+export type RemoteTransportType = 'streamable-http' | 'sse';
+
+/**
+ * Connect a client to a remote MCP server, falling back to SSE for servers without Streamable HTTP.
+ * Connection failures (e.g. the server is not listening) are thrown without trying SSE.
+ * onTransport is called with each transport before it is connected.
+ */
+export async function connectRemoteClient(
+  client: Client,
+  url: string | URL,
+  onTransport?: (transport: Transport) => void
+): Promise<RemoteTransportType> {
+  const serverUrl = new URL(url);
+  const connect = (transport: Transport) => {
+    onTransport?.(transport);
+    return connectClient(client, transport);
+  };
+
+  try {
+    // sessionId is declared `string | undefined`, which exactOptionalPropertyTypes rejects
+    await connect(new StreamableHTTPClientTransport(serverUrl) as Transport);
+    return 'streamable-http';
+  } catch (error) {
+    // fetch reports network failures as TypeError; SSE would not get any further
+    if (error instanceof TypeError) {
+      throw error;
+    }
+
+    logger.debug('Streamable HTTP rejected, falling back to SSE', {
+      url: serverUrl.href,
+      error: error instanceof Error ? error.message : String(error)
+    }, 'REMOTE');
+  }
+
+  await connect(new SSEClientTransport(serverUrl));
+  return 'sse';
+}
+
+/**
+ * Close a client connected with connectRemoteClient, ending its Streamable HTTP session on the server
+ */
+export async function closeRemoteClient(client: Client): Promise<void> {
+  const transport = client.transport;
+  if (transport instanceof StreamableHTTPClientTransport && transport.sessionId) {
+    try {
+      await transport.terminateSession();
+    } catch (error) {
+      logger.debug('Error terminating remote session', { error }, 'REMOTE');
+    }
+  }
+  await client.close();
+}
+
+/**
+ * Check that a string is an http(s) URL
+ */
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * RequestQueue - Parks client requests while the child server is restarting or unavailable
+ * and replays them against the new child once it is connected.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './mcp-logger.js';
+import { PROXY_SPECIFIC_ERROR_CODES } from './errors.js';
+import type { PendingRequest } from './types.js';
+
+/** Options for the request queue */
+export interface RequestQueueOptions {
+  /** Maximum number of requests that can be parked at once */
+  maxSize: number;
+  /** Time in milliseconds a parked request waits for a child before failing */
+  timeout: number;
+}
+
+/**
+ * Bounded queue of requests waiting for a child server, with per-request timeouts.
+ */
+export class RequestQueue {
+  private readonly options: RequestQueueOptions;
+  private pending: PendingRequest[] = [];
+  private paused = false;
+
+  constructor(options: RequestQueueOptions) {
+    this.options = options;
+  }
+
+  /** Hold new requests until resume() or rejectAll() is called */
+  pause(): void {
+    this.paused = true;
+  }
+
+  /** Check if requests are currently being held */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /** Number of requests currently parked */
+  size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Park a request until a child client is available.
+   * Resolves with the client the request should be forwarded to; a request whose
+   * signal aborts while parked is dropped from the queue.
+   */
+  enqueue(method: string, signal?: AbortSignal): Promise<Client> {
+    if (this.pending.length >= this.options.maxSize) {
+      return Promise.reject(new McpError(
+        PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE,
+        `Child server is restarting and the request queue is full (${this.options.maxSize} pending requests)`
+      ));
+    }
+
+    return new Promise<Client>((resolve, reject) => {
+      // Signals can be reused across requests, so the listener goes once the request settles
+      const onAbort = () => {
+        if (!this.pending.includes(entry)) return;
+        clearTimeout(entry.timeoutId);
+        this.remove(entry);
+        logger.debug('Queued request cancelled', { method }, 'PROXY-QUEUE');
+        entry.reject(new Error(`Request cancelled while queued (${method})`));
+      };
+
+      const entry: PendingRequest = {
+        method,
+        resolve: (client) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(client);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        timestamp: Date.now(),
+        timeoutId: setTimeout(() => {
+          this.remove(entry);
+          logger.debug('Queued request timed out', { method }, 'PROXY-QUEUE');
+          entry.reject(new McpError(
+            PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE,
+            `Child server did not become available within ${this.options.timeout}ms (${method})`
+          ));
+        }, this.options.timeout)
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.push(entry);
+      logger.debug('Queued request while child server is unavailable', {
+        method,
+        queued: this.pending.length
+      }, 'PROXY-QUEUE');
+    });
+  }
+
+  /** Stop holding requests and replay all parked requests against the given client */
+  resume(client: Client): void {
+    this.paused = false;
+    const entries = this.drain();
+
+    if (entries.length > 0) {
+      logger.info('Replaying queued requests against child server', {
+        count: entries.length,
+        methods: entries.map(entry => entry.method)
+      }, 'PROXY-QUEUE');
+    }
+
+    for (const entry of entries) {
+      entry.resolve(client);
+    }
+  }
+
+  /** Stop holding requests and fail all parked requests */
+  rejectAll(error: Error): void {
+    this.paused = false;
+    const entries = this.drain();
+
+    if (entries.length > 0) {
+      logger.warn('Failing queued requests', { count: entries.length, error: error.message }, 'PROXY-QUEUE');
+    }
+
+    for (const entry of entries) {
+      entry.reject(error);
+    }
+  }
+
+  private drain(): PendingRequest[] {
+    const entries = this.pending;
+    this.pending = [];
+    for (const entry of entries) {
+      clearTimeout(entry.timeoutId);
+    }
+    return entries;
+  }
+
+  private remove(entry: PendingRequest): void {
+    this.pending = this.pending.filter(pending => pending !== entry);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * SchemaValidator - Checks tool call arguments against the tool's inputSchema and tool
+ * results against its outputSchema, so a failure can be told apart as malformed
+ * arguments from the model or a server that drifted from its declared contract.
+ */
+
+import Ajv from 'ajv';
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './mcp-logger.js';
+
+/** A value that does not match a schema */
+export interface SchemaError {
+  /** JSON pointer (RFC 6901) into the validated value; '' is the value itself */
+  path: string;
+  message: string;
+}
+
+type SchemaKind = 'inputSchema' | 'outputSchema';
+
+/**
+ * Validates with a compiled schema per tool. Validators are cached per tool
+ * definition, so a refreshed tool list is compiled afresh.
+ */
+export class SchemaValidator {
+  private readonly ajv = new Ajv({
+    allErrors: true,
+    jsonPointers: true,
+    // Servers declare all sorts of drafts and formats; only the structure is checked
+    validateSchema: false,
+    unknownFormats: 'ignore',
+    missingRefs: 'ignore',
+    // Ajv logs ignored keywords and refs through console, which would corrupt stdio
+    logger: {
+      log: (...args: unknown[]) => logger.debug(args.join(' '), undefined, 'PROXY-TOOL'),
+      warn: (...args: unknown[]) => logger.debug(args.join(' '), undefined, 'PROXY-TOOL'),
+      error: (...args: unknown[]) => logger.warn(args.join(' '), undefined, 'PROXY-TOOL')
+    }
+  });
+  private readonly validators: Record<SchemaKind, WeakMap<Tool, Ajv.ValidateFunction | null>> = {
+    inputSchema: new WeakMap(),
+    outputSchema: new WeakMap()
+  };
+
+  /**
+   * List the ways the arguments violate the tool's inputSchema; empty if they match
+   * or the schema can't be compiled
+   */
+  validateArguments(tool: Tool, args: unknown): SchemaError[] {
+    return this.validate(tool, 'inputSchema', args ?? {});
+  }
+
+  /**
+   * List the ways a result violates the tool's outputSchema: structuredContent must be
+   * present and match it. Error results and tools without an outputSchema always pass.
+   */
+  validateStructuredContent(tool: Tool, result: CallToolResult): SchemaError[] {
+    if (!tool.outputSchema || result.isError) {
+      return [];
+    }
+    if (result.structuredContent === undefined) {
+      return [{ path: '', message: 'structuredContent is missing but the tool declares an outputSchema' }];
+    }
+    return this.validate(tool, 'outputSchema', result.structuredContent);
+  }
+
+  private validate(tool: Tool, kind: SchemaKind, value: unknown): SchemaError[] {
+    const validate = this.getValidator(tool, kind);
+    if (!validate || validate(value)) {
+      return [];
+    }
+    return (validate.errors ?? []).map(toSchemaError);
+  }
+
+  private getValidator(tool: Tool, kind: SchemaKind): Ajv.ValidateFunction | null {
+    let validate = this.validators[kind].get(tool);
+    if (validate === undefined) {
+      try {
+        // $schema would make ajv look up the draft's meta-schema
+        const { $schema: _draft, ...schema } = tool[kind] as Record<string, unknown>;
+        validate = this.ajv.compile(schema);
+      } catch (error) {
+        logger.warn(`Cannot compile ${kind} of tool ${tool.name}; it is not validated`, {
+          error: error instanceof Error ? error.message : String(error)
+        }, 'PROXY-TOOL');
+        validate = null;
+      }
+      this.validators[kind].set(tool, validate);
+    }
+    return validate;
+  }
+}
+
+/**
+ * Point missing and unexpected properties at the property itself rather than its parent
+ */
+function toSchemaError(error: Ajv.ErrorObject): SchemaError {
+  const params = error.params as { missingProperty?: string; additionalProperty?: string };
+  const property = params.missingProperty ?? params.additionalProperty;
+  const path = property !== undefined
+    ? `${error.dataPath}/${property.replace(/~/g, '~0').replace(/\//g, '~1')}`
+    : error.dataPath;
+  return { path, message: error.message ?? error.keyword };
+}
+
+/**
+ * Format schema errors as one line each, e.g. `/count: should be integer`
+ */
+export function formatSchemaErrors(errors: SchemaError[]): string {
+  return errors.map(({ path, message }) => `${path || '/'}: ${message}`).join('\n');
+}
@@ -0,0 +1,245 @@
+/**
+ * SessionReplay - Re-issues the requests of a session recorded with `proxy --record`
+ * against a server and compares its responses with the recorded ones, so real agent
+ * sessions can serve as regression tests.
+ */
+
+import { readFileSync } from 'fs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  McpError,
+  ResultSchema,
+  type JSONRPCRequest
+} from '@modelcontextprotocol/sdk/types.js';
+import { PROXY_TOOLS } from './constants.js';
+import { PROXY_SPECIFIC_ERROR_CODES } from './errors.js';
+import { diffJson, type JsonDifference } from './json-diff.js';
+import type { TrafficRecord } from './traffic-recorder.js';
+
+/** Requests the replaying client makes itself while connecting */
+const HANDSHAKE_METHODS = new Set(['initialize']);
+
+/** Volatile strings replaced by a placeholder with ignoreVolatile */
+const VOLATILE_PATTERNS: Array<[RegExp, string]> = [
+  [/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>'],
+  [/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>']
+];
+
+/** Outcome of a request: its result, or the error it failed with */
+export type ReplayOutcome = { result: unknown } | { error: { code: number; message: string } };
+
+/** A recorded client request and the response it got */
+export interface ReplayStep {
+  /** Child generation serving when the request was sent */
+  generation: number;
+  request: JSONRPCRequest;
+  expected: ReplayOutcome;
+}
+
+/** Options for comparing replayed responses */
+export interface ReplayOptions {
+  /** Property names left out of the comparison wherever they occur */
+  ignoreFields?: string[];
+  /** Treat ISO 8601 timestamps and UUIDs inside strings as equal */
+  ignoreVolatile?: boolean;
+  /** Time in milliseconds each replayed request may take */
+  timeout?: number;
+}
+
+/** A replayed request whose response differs from the recording */
+export interface ReplayMismatch {
+  /** Position of the request among the replayed requests, starting at 1 */
+  index: number;
+  method: string;
+  params?: unknown;
+  differences: JsonDifference[];
+}
+
+/** Result of replaying a session */
+export interface ReplayReport {
+  /** Number of requests replayed */
+  replayed: number;
+  /** Number of responses that match the recording */
+  matched: number;
+  mismatches: ReplayMismatch[];
+  /** Recorded requests that were not replayed because the recording has no response for them */
+  skipped: number;
+}
+
+/**
+ * Read a JSONL recording written by TrafficRecorder
+ */
+export function loadRecording(filePath: string): TrafficRecord[] {
+  const lines = readFileSync(filePath, 'utf8').split('\n');
+  const records: TrafficRecord[] = [];
+
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${i + 1} of ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!isTrafficRecord(record)) {
+      throw new Error(`Line ${i + 1} of ${filePath} is not a recorded message`);
+    }
+    records.push(record);
+  });
+
+  return records;
+}
+
+/**
+ * Pair the requests the client sent with the responses it got. Only client requests
+ * are replayed, not the list and subscribe requests the proxy sends the child on its
+ * own after starts, restarts and list changes. What the proxy adds itself is left out:
+ * restart_server calls, restart_server in tools/list results and the errors it answers
+ * with while no child is available.
+ */
+export function extractReplaySteps(records: TrafficRecord[]): { steps: ReplayStep[]; skipped: number } {
+  // Each HTTP session numbers its requests separately
+  const key = (sessionId: string | undefined, id: string | number) => `${sessionId ?? ''}:${id}`;
+  const responses = new Map<string, ReplayOutcome>();
+
+  for (const { direction, sessionId, message } of records) {
+    if (direction !== 'proxy->client') continue;
+    if (isJSONRPCResponse(message)) {
+      responses.set(key(sessionId, message.id), { result: message.result });
+    } else if (isJSONRPCError(message)) {
+      responses.set(key(sessionId, message.id), {
+        error: { code: message.error.code, message: message.error.message }
+      });
+    }
+  }
+
+  const steps: ReplayStep[] = [];
+  let skipped = 0;
+  for (const { direction, generation, sessionId, message } of records) {
+    if (direction !== 'client->proxy' || !isJSONRPCRequest(message) || HANDSHAKE_METHODS.has(message.method)
+      || isRestartServerCall(message)) {
+      continue;
+    }
+    const expected = responses.get(key(sessionId, message.id));
+    if (expected && !('error' in expected && expected.error.code === PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE)) {
+      steps.push({ generation, request: message, expected: withoutProxyTools(message, expected) });
+    } else {
+      skipped++;
+    }
+  }
+
+  return { steps, skipped };
+}
+
+function isRestartServerCall(request: JSONRPCRequest): boolean {
+  return request.method === 'tools/call' && request.params?.['name'] === PROXY_TOOLS.RESTART_SERVER;
+}
+
+/**
+ * Remove the restart_server tool the proxy adds to the child's tools/list result
+ */
+function withoutProxyTools(request: JSONRPCRequest, outcome: ReplayOutcome): ReplayOutcome {
+  if (request.method !== 'tools/list' || !('result' in outcome)) {
+    return outcome;
+  }
+  const result = outcome.result as { tools?: unknown };
+  if (!Array.isArray(result.tools)) {
+    return outcome;
+  }
+  return {
+    result: {
+      ...result,
+      tools: result.tools.filter(tool => (tool as { name?: unknown } | null)?.name !== PROXY_TOOLS.RESTART_SERVER)
+    }
+  };
+}
+
+/**
+ * Re-issue the recorded requests one at a time and compare each response with the recording
+ */
+export async function replaySession(client: Client, records: TrafficRecord[], options: ReplayOptions = {}): Promise<ReplayReport> {
+  const { steps, skipped } = extractReplaySteps(records);
+  const mismatches: ReplayMismatch[] = [];
+
+  for (const [i, { request, expected }] of steps.entries()) {
+    const actual = await sendRequest(client, request, options.timeout);
+    const differences = diffJson(normalize(expected, options), normalize(actual, options));
+    if (differences.length > 0) {
+      mismatches.push({
+        index: i + 1,
+        method: request.method,
+        ...(request.params !== undefined && { params: request.params }),
+        differences
+      });
+    }
+  }
+
+  return {
+    replayed: steps.length,
+    matched: steps.length - mismatches.length,
+    mismatches,
+    skipped
+  };
+}
+
+async function sendRequest(client: Client, request: JSONRPCRequest, timeout?: number): Promise<ReplayOutcome> {
+  const params = request.params && withoutProgressToken(request.params);
+  try {
+    const result = await client.request(
+      { method: request.method, ...(params !== undefined && { params }) },
+      ResultSchema,
+      timeout !== undefined ? { timeout } : undefined
+    );
+    return { result };
+  } catch (error) {
+    if (error instanceof McpError) {
+      // McpError prefixes the message it was given with the code
+      return { error: { code: error.code, message: error.message.replace(/^MCP error -?\d+: /, '') } };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Drop the recorded progress token; the replaying client would not recognise progress reported against it
+ */
+function withoutProgressToken(params: NonNullable<JSONRPCRequest['params']>): JSONRPCRequest['params'] {
+  if (params._meta?.progressToken === undefined) {
+    return params;
+  }
+  const { progressToken: _progressToken, ...meta } = params._meta;
+  return { ...params, _meta: meta };
+}
+
+/**
+ * Remove ignored fields and mask volatile strings before comparing
+ */
+function normalize(value: unknown, options: ReplayOptions): unknown {
+  if (typeof value === 'string') {
+    return options.ignoreVolatile
+      ? VOLATILE_PATTERNS.reduce((masked, [pattern, placeholder]) => masked.replace(pattern, placeholder), value)
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => normalize(item, options));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !options.ignoreFields?.includes(key))
+        .map(([key, item]) => [key, normalize(item, options)])
+    );
+  }
+  return value;
+}
+
+function isTrafficRecord(value: unknown): value is TrafficRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return typeof record['direction'] === 'string'
+    && typeof record['generation'] === 'number'
+    && typeof record['message'] === 'object' && record['message'] !== null;
+}
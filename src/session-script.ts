@@ -0,0 +1,286 @@
+/**
+ * SessionScript - Runs an ordered list of inspect operations from a JSON or YAML file
+ * against one server session, so checks that need a sequence of dependent calls can
+ * run without restarting the server between them.
+ */
+
+import { readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { RequestOptions } from '@modelcontextprotocol/sdk/shared/protocol.js';
+
+/** Operations a script step can perform */
+export const SCRIPT_ACTIONS = [
+  'list-tools',
+  'call-tool',
+  'list-resources',
+  'read-resource',
+  'list-prompts',
+  'get-prompt',
+  'ping',
+  'restart'
+] as const;
+
+export type ScriptAction = typeof SCRIPT_ACTIONS[number];
+
+/** One operation of a script */
+export interface ScriptStep {
+  action: ScriptAction;
+  /** Name later steps use to reference this step's result */
+  id?: string;
+  /** Tool name for call-tool, prompt name for get-prompt */
+  name?: string;
+  /** Resource URI for read-resource */
+  uri?: string;
+  /** Arguments for call-tool and get-prompt */
+  arguments?: Record<string, unknown>;
+}
+
+/** A script of steps run in order */
+export interface InspectionScript {
+  steps: ScriptStep[];
+}
+
+/** Outcome of one step */
+export interface StepReport {
+  /** Position of the step in the script, starting at 1 */
+  index: number;
+  action: ScriptAction;
+  id?: string;
+  durationMs: number;
+  result?: unknown;
+  error?: string;
+}
+
+/** Result of running a script */
+export interface ScriptReport {
+  /** Whether every step succeeded */
+  passed: boolean;
+  steps: StepReport[];
+  /** Steps not run because an earlier step failed */
+  skipped: number;
+}
+
+/** Options for running a script */
+export interface ScriptRunOptions {
+  /** Connect a new client to the server; called again for each restart step */
+  connect: () => Promise<Client>;
+  /** Close a client returned by connect */
+  close: (client: Client) => Promise<void>;
+  /** Time in milliseconds each request may take */
+  timeout?: number;
+}
+
+/** Fields each action requires */
+const REQUIRED_FIELDS: Partial<Record<ScriptAction, 'name' | 'uri'>> = {
+  'call-tool': 'name',
+  'read-resource': 'uri',
+  'get-prompt': 'name'
+};
+
+/** A `${...}` variable; group 1 is the path */
+const VARIABLE_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Read and validate a script file. JSON is read as YAML, which it is a subset of.
+ */
+export function loadScript(filePath: string): InspectionScript {
+  let script: unknown;
+  try {
+    script = parseYaml(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read script ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof script !== 'object' || script === null || !Array.isArray((script as InspectionScript).steps)) {
+    throw new Error(`Script ${filePath} must have a list of steps`);
+  }
+
+  const ids = new Set<string>();
+  (script as InspectionScript).steps.forEach((step, i) => {
+    const problem = validateStep(step, ids);
+    if (problem) {
+      throw new Error(`Step ${i + 1} of ${filePath} ${problem}`);
+    }
+    if (step.id !== undefined) {
+      ids.add(step.id);
+    }
+  });
+
+  return script as InspectionScript;
+}
+
+/**
+ * Run the steps in order, stopping at the first that fails. A step fails when its
+ * request fails, a variable in it can't be resolved, or its tool result has isError.
+ */
+export async function runScript(script: InspectionScript, options: ScriptRunOptions): Promise<ScriptReport> {
+  const requestOptions: RequestOptions | undefined = options.timeout !== undefined
+    ? { timeout: options.timeout }
+    : undefined;
+  const results = new Map<string, unknown>();
+  const steps: StepReport[] = [];
+
+  let client: Client | null = await options.connect();
+  try {
+    for (const [i, step] of script.steps.entries()) {
+      const started = Date.now();
+      const report: StepReport = {
+        index: i + 1,
+        action: step.action,
+        ...(step.id !== undefined && { id: step.id }),
+        durationMs: 0
+      };
+      steps.push(report);
+
+      try {
+        const resolved = resolveVariables(step, results) as ScriptStep;
+        if (step.action === 'restart') {
+          await options.close(client!);
+          client = null;
+          client = await options.connect();
+          report.result = { serverInfo: client.getServerVersion() };
+        } else {
+          report.result = await runStep(client!, resolved, requestOptions);
+        }
+        if (step.action === 'call-tool' && (report.result as { isError?: boolean }).isError) {
+          report.error = 'Tool returned an error result';
+        }
+      } catch (error) {
+        report.error = error instanceof Error ? error.message : String(error);
+      }
+      report.durationMs = Date.now() - started;
+
+      if (report.error !== undefined) break;
+      if (step.id !== undefined) {
+        results.set(step.id, report.result);
+      }
+    }
+  } finally {
+    if (client) {
+      await options.close(client);
+    }
+  }
+
+  const failed = steps.some(step => step.error !== undefined);
+  return { passed: !failed, steps, skipped: script.steps.length - steps.length };
+}
+
+/**
+ * Replace `${id.path}` variables in a value with parts of earlier results. A string that
+ * is a single variable becomes the referenced value itself; variables inside longer
+ * strings are replaced by their text (JSON for objects and arrays).
+ */
+export function resolveVariables(value: unknown, results: ReadonlyMap<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = /^\$\{([^}]+)\}$/.exec(value);
+    if (whole) {
+      return resolvePath(whole[1]!, results);
+    }
+    return value.replace(VARIABLE_PATTERN, (_match, path: string) => {
+      const resolved = resolvePath(path, results);
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => resolveVariables(item, results));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveVariables(item, results)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Look up a JSONPath-style path such as `created.content[0].text` or `item["odd key"]`,
+ * where the first segment is the id of an earlier step
+ */
+function resolvePath(path: string, results: ReadonlyMap<string, unknown>): unknown {
+  const trimmed = path.trim().replace(/^\$\./, '');
+  const segments = parsePath(trimmed);
+  if (!segments) {
+    throw new Error(`Invalid variable path: ${path}`);
+  }
+
+  const [id, ...rest] = segments;
+  if (!results.has(String(id))) {
+    throw new Error(`Variable \${${path}} refers to no earlier step with id '${id}'`);
+  }
+
+  let current: unknown = results.get(String(id));
+  for (const segment of rest) {
+    if (typeof current !== 'object' || current === null || !(segment in current)) {
+      throw new Error(`Variable \${${path}} does not resolve: no ${typeof segment === 'number' ? `index ${segment}` : `property '${segment}'`}`);
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Split a path into property names and array indices, or return null if it is malformed
+ */
+function parsePath(path: string): Array<string | number> | null {
+  const first = /^[A-Za-z_][\w-]*/.exec(path);
+  if (!first) return null;
+
+  const segments: Array<string | number> = [first[0]];
+  const segmentPattern = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\["([^"]*)"\]|\['([^']*)'\]/y;
+  segmentPattern.lastIndex = first[0].length;
+  while (segmentPattern.lastIndex < path.length) {
+    const match = segmentPattern.exec(path);
+    if (!match) return null;
+    segments.push(match[2] !== undefined ? Number(match[2]) : (match[1] ?? match[3] ?? match[4])!);
+  }
+  return segments;
+}
+
+function runStep(client: Client, step: ScriptStep, options: RequestOptions | undefined): Promise<unknown> {
+  switch (step.action) {
+    case 'list-tools':
+      return client.listTools(undefined, options);
+    case 'call-tool':
+      return client.callTool({ name: step.name!, arguments: step.arguments ?? {} }, undefined, options);
+    case 'list-resources':
+      return client.listResources(undefined, options);
+    case 'read-resource':
+      return client.readResource({ uri: step.uri! }, options);
+    case 'list-prompts':
+      return client.listPrompts(undefined, options);
+    case 'get-prompt':
+      return client.getPrompt({ name: step.name!, arguments: (step.arguments ?? {}) as Record<string, string> }, options);
+    case 'ping':
+      return client.ping(options);
+    default:
+      throw new Error(`Unknown action: ${step.action}`);
+  }
+}
+
+/**
+ * Describe what is wrong with a step, or return null if it is valid
+ */
+function validateStep(step: unknown, earlierIds: ReadonlySet<string>): string | null {
+  if (typeof step !== 'object' || step === null || Array.isArray(step)) {
+    return 'is not an object';
+  }
+  const { action, id, arguments: args } = step as Record<string, unknown>;
+  if (!SCRIPT_ACTIONS.includes(action as ScriptAction)) {
+    return `has unknown action ${JSON.stringify(action)}; expected one of ${SCRIPT_ACTIONS.join(', ')}`;
+  }
+  const required = REQUIRED_FIELDS[action as ScriptAction];
+  if (required && typeof (step as Record<string, unknown>)[required] !== 'string') {
+    return `(${action}) needs a ${required}`;
+  }
+  if (id !== undefined && (typeof id !== 'string' || !/^[A-Za-z_][\w-]*$/.test(id))) {
+    return `has an invalid id ${JSON.stringify(id)}; use letters, digits, _ and -`;
+  }
+  if (typeof id === 'string' && earlierIds.has(id)) {
+    return `reuses the id '${id}'`;
+  }
+  if (args !== undefined && (typeof args !== 'object' || args === null || Array.isArray(args))) {
+    return 'has arguments that are not an object';
+  }
+  return null;
+}
@@ -0,0 +1,116 @@
+/**
+ * TrafficRecorder - Writes every JSON-RPC message crossing the proxy to a JSONL file,
+ * so a session an agent got wrong can be reproduced exactly. Each line records when
+ * the message was seen, the hop and direction it crossed, and the child generation.
+ */
+
+import { appendFileSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './mcp-logger.js';
+
+/** Hop and direction a recorded message crossed */
+export type TrafficDirection = 'client->proxy' | 'proxy->client' | 'proxy->child' | 'child->proxy';
+
+/** One line of a recording */
+export interface TrafficRecord {
+  /** ISO 8601 time the message was received or sent */
+  timestamp: string;
+  direction: TrafficDirection;
+  /**
+   * Child generation: 1 for the first child, incremented by every restart.
+   * Upstream messages carry the generation serving at the time.
+   */
+  generation: number;
+  /** Session of an upstream client connected over HTTP */
+  sessionId?: string;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Records the messages of the transports attached to it.
+ * Writes are synchronous so lines keep the order messages crossed the proxy in.
+ */
+export class TrafficRecorder {
+  private readonly filePath: string;
+  private generation = 0;
+  private writeFailed = false;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Create or truncate the recording file
+   */
+  open(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, '', 'utf8');
+    logger.info('Recording session traffic', { file: this.filePath });
+  }
+
+  /**
+   * Set the child generation now serving upstream clients
+   */
+  setGeneration(generation: number): void {
+    this.generation = generation;
+  }
+
+  /**
+   * Record a transport to an upstream client. Must be called before the transport is connected.
+   */
+  attachClient(transport: Transport): void {
+    this.attach(transport, 'client->proxy', 'proxy->client', () => this.generation);
+  }
+
+  /**
+   * Record a transport to a child of the given generation. Must be called before the transport is connected.
+   */
+  attachChild(transport: Transport, generation: number): void {
+    this.attach(transport, 'child->proxy', 'proxy->child', () => generation);
+  }
+
+  private attach(
+    transport: Transport,
+    inbound: TrafficDirection,
+    outbound: TrafficDirection,
+    generation: () => number
+  ): void {
+    // Protocol.connect chains an onmessage handler that is already set
+    const onmessage = transport.onmessage;
+    transport.onmessage = (message, extra) => {
+      this.write(inbound, generation(), message, transport.sessionId);
+      onmessage?.(message, extra);
+    };
+
+    const send = transport.send.bind(transport);
+    transport.send = (message, options) => {
+      this.write(outbound, generation(), message, transport.sessionId);
+      return send(message, options);
+    };
+  }
+
+  private write(direction: TrafficDirection, generation: number, message: JSONRPCMessage, sessionId?: string): void {
+    const record: TrafficRecord = {
+      timestamp: new Date().toISOString(),
+      direction,
+      generation,
+      ...(sessionId !== undefined && { sessionId }),
+      message
+    };
+
+    try {
+      appendFileSync(this.filePath, JSON.stringify(record) + '\n', 'utf8');
+    } catch (error) {
+      // Report once instead of for every message
+      if (!this.writeFailed) {
+        this.writeFailed = true;
+        logger.error('Failed to write session recording', {
+          file: this.filePath,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+}
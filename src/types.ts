@@ -47,6 +47,7 @@ import type {
   JSONRPCNotification,
   LoggingLevel
 } from '@modelcontextprotocol/sdk/types.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
 
 // =============================================================================
 // CORE PROXY CONFIGURATION
@@ -57,7 +58,7 @@ import type {
  * Defines how the proxy should launch and manage the child MCP server.
  */
 export interface ProxyConfig {
-  /** Command to execute for the child MCP server */
+  /** Command to execute for the child MCP server (empty when childUrl is set) */
   childCommand: string;
   
   /** Command-line arguments to pass to the child server */
@@ -89,13 +90,79 @@ export interface ProxyConfig {
   
   /** Optional log file path for writing logs to disk */
   logFile?: string;
+  
+  /** Glob patterns (relative to workingDirectory) that trigger an automatic restart when changed */
+  watchPatterns?: string[];
+  
+  /** Glob patterns excluded from file watching, in addition to node_modules, dist and .git */
+  watchIgnorePatterns?: string[];
+  
+  /** Debounce window in milliseconds for file change restarts (default: 300) */
+  watchDebounce?: number;
+  
+  /** Shell command to run before each restart; the child is only replaced if it exits 0 */
+  buildCommand?: string;
+  
+  /** Time in milliseconds the build command may run before it is killed (default: 300000) */
+  buildTimeout?: number;
+  
+  /** Maximum number of requests parked while the child is restarting (default: 100) */
+  maxQueuedRequests?: number;
+  
+  /** Time in milliseconds a request forwarded to the child may take (default: 60000) */
+  requestTimeout?: number;
+  
+  /** Per-tool overrides of requestTimeout, keyed by tool name */
+  toolTimeouts?: Record<string, number>;
+  
+  /** Time in milliseconds a request may take in total while its progress resets the timeout (default: 600000) */
+  maxTotalTimeout?: number;
+  
+  /** Reject tool calls whose arguments violate the tool's inputSchema instead of forwarding them */
+  strictArguments?: boolean;
+  
+  /** Fail tool calls whose structuredContent violates the tool's outputSchema instead of only logging them */
+  strictOutput?: boolean;
+  
+  /** Transport upstream clients connect through (default: stdio) */
+  transport?: ProxyTransport;
+  
+  /** Port to listen on when using the HTTP transport (default: 3000) */
+  port?: number;
+  
+  /** Interface to bind when using the HTTP transport (default: 127.0.0.1) */
+  host?: string;
+  
+  /** Host headers the HTTP transport accepts (default: the bound host and port) */
+  allowedHosts?: string[];
+  
+  /** Origin headers the HTTP transport accepts from browsers (default: the origins of allowedHosts) */
+  allowedOrigins?: string[];
+  
+  /** URL of a child server already running as an HTTP service; connected to instead of spawning childCommand */
+  childUrl?: string;
+  
+  /** Shell command that restarts the service behind childUrl; run before each reconnect */
+  restartCommand?: string;
+  
+  /** JSONL file every JSON-RPC message crossing the proxy is recorded to */
+  recordFile?: string;
 }
 
+/**
+ * Upstream transports the proxy can serve clients over.
+ * 'http' serves Streamable HTTP with a legacy SSE fallback.
+ */
+export type ProxyTransport = 'stdio' | 'http';
+
 /**
  * Partial configuration for updates during runtime.
  * Used by the restart_server tool to modify child server parameters.
  */
 export interface ProxyConfigUpdate {
+  /** Updated command to run for the child server */
+  childCommand?: string;
+  
   /** Updated environment variables (merged with existing) */
   environment?: Record<string, string>;
   
@@ -197,20 +264,24 @@ export interface ProxyState {
 }
 
 /**
- * Represents a request that is pending while the child server is restarting.
+ * Represents a request that is parked while the child server is restarting or unavailable.
+ * Once a child is connected the request is resumed with that child's client and replayed.
  */
 export interface PendingRequest {
-  /** Original JSON-RPC request */
-  request: JSONRPCRequest;
+  /** MCP method of the parked request (e.g. tools/call) */
+  method: string;
   
-  /** Callback to resolve the request */
-  resolve: (response: JSONRPCResponse) => void;
+  /** Callback to resume the request against the newly connected child client */
+  resolve: (client: Client) => void;
   
-  /** Callback to reject the request */
-  reject: (error: JSONRPCError) => void;
+  /** Callback to fail the request */
+  reject: (error: Error) => void;
   
   /** Timestamp when the request was queued */
   timestamp: number;
+  
+  /** Timer that fails the request if no child becomes available in time */
+  timeoutId: NodeJS.Timeout;
 }
 
 // =============================================================================
@@ -227,6 +298,10 @@ export const RESTART_SERVER_SCHEMA = {
       type: 'object',
       description: 'Optional configuration updates to apply during restart',
       properties: {
+        childCommand: {
+          type: 'string',
+          description: 'Updated command to run for the child server'
+        },
         environment: {
           type: 'object',
           description: 'Environment variables to update (merged with existing)',
@@ -252,6 +327,11 @@ export const RESTART_SERVER_SCHEMA = {
       type: 'boolean',
       description: 'Force restart even if the server appears to be running normally',
       default: false
+    },
+    skipBuild: {
+      type: 'boolean',
+      description: 'Restart without running the build command, e.g. after building by hand',
+      default: false
     }
   },
   additionalProperties: false
@@ -278,6 +358,9 @@ export interface RestartServerRequest {
   
   /** Force restart even if server is running normally */
   force?: boolean;
+
+  /** Restart without running the build command */
+  skipBuild?: boolean;
 }
 
 /**
@@ -387,7 +470,10 @@ export enum ProxyErrorCode {
   INVALID_CONFIG = 'INVALID_CONFIG',
   
   /** Request made while child is unavailable */
-  CHILD_UNAVAILABLE = 'CHILD_UNAVAILABLE'
+  CHILD_UNAVAILABLE = 'CHILD_UNAVAILABLE',
+  
+  /** Build command failed before a restart */
+  BUILD_FAILED = 'BUILD_FAILED'
 }
 
 /**
@@ -0,0 +1,97 @@
+/**
+ * Tests for runBuildCommand - build execution before restarts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { runBuildCommand } from '../src/build-runner.js';
+import { logger } from '../src/mcp-logger.js';
+
+// Mock logger
+vi.mock('../src/mcp-logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+describe('runBuildCommand', () => {
+  const options = {
+    cwd: process.cwd(),
+    env: process.env as Record<string, string>,
+    timeout: 10000
+  };
+
+  it('should report success for a zero exit code', async () => {
+    const result = await runBuildCommand(`node -e "console.log('compiled')"`, options);
+
+    expect(result.success).toBe(true);
+    expect(result.exitCode).toBe(0);
+    expect(result.output).toBe('compiled');
+    expect(result.timedOut).toBe(false);
+  });
+
+  it('should capture stderr and the exit code of a failed build', async () => {
+    const result = await runBuildCommand(
+      `node -e "console.error('src/server.ts(3,1): error TS1005'); process.exit(2)"`,
+      options
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.exitCode).toBe(2);
+    expect(result.output).toContain('error TS1005');
+  });
+
+  it('should fail a build that exceeds the timeout', async () => {
+    const result = await runBuildCommand(`node -e "setTimeout(() => {}, 10000)"`, {
+      ...options,
+      timeout: 200
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.timedOut).toBe(true);
+    expect(result.output).toContain('timed out after 200ms');
+  });
+
+  it('should kill a build when its signal aborts', async () => {
+    const controller = new AbortController();
+    const build = runBuildCommand(`node -e "setTimeout(() => {}, 10000)"`, { ...options, signal: controller.signal });
+
+    controller.abort();
+    const result = await build;
+
+    expect(result.success).toBe(false);
+    expect(result.timedOut).toBe(false);
+    expect(result.output).toContain('Build was cancelled');
+  });
+
+  it('should log and report the command under its label', async () => {
+    const result = await runBuildCommand(`node -e "setTimeout(() => {}, 10000)"`, {
+      ...options,
+      timeout: 200,
+      label: 'Restart'
+    });
+
+    expect(result.output).toContain('Restart timed out after 200ms');
+    expect(logger.info).toHaveBeenCalledWith('Running restart command', expect.anything(), 'RESTART');
+    expect(logger.error).toHaveBeenCalledWith('Restart failed', expect.anything(), 'RESTART');
+  });
+
+  it.skipIf(process.platform === 'win32')('should kill the processes a timed-out build started', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'reloaderoo-build-'));
+    const marker = join(dir, 'late.txt');
+    try {
+      const result = await runBuildCommand(`(sleep 0.5; touch '${marker}') & sleep 10`, { ...options, timeout: 200 });
+      await new Promise(resolve => setTimeout(resolve, 800));
+
+      expect(result.timedOut).toBe(true);
+      expect(existsSync(marker)).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for capability changes - comparing what a child offers across restarts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffCatalogs, formatCapabilityChanges, hasChanges, type CapabilityCatalog } from '../src/capability-changes.js';
+
+const emptyCatalog: CapabilityCatalog = { tools: [], prompts: [], resources: [], resourceTemplates: [] };
+
+describe('diffCatalogs', () => {
+  it('should identify resources by URI and templates by URI template', () => {
+    const changes = diffCatalogs(
+      {
+        ...emptyCatalog,
+        resources: [{ uri: 'file:///a.txt', name: 'a' }],
+        resourceTemplates: [{ uriTemplate: 'file:///{path}', name: 'files' }]
+      },
+      {
+        ...emptyCatalog,
+        resources: [{ uri: 'file:///a.txt', name: 'a', mimeType: 'text/plain' }],
+        resourceTemplates: [{ uriTemplate: 'file:///{dir}/{path}', name: 'files' }]
+      }
+    );
+
+    expect(changes.resources).toEqual({
+      added: [],
+      removed: [],
+      changed: [{ name: 'file:///a.txt', differences: [{ path: '/mimeType', actual: 'text/plain' }] }]
+    });
+    expect(changes.resourceTemplates).toEqual({
+      added: ['file:///{dir}/{path}'],
+      removed: ['file:///{path}'],
+      changed: []
+    });
+    expect(hasChanges(changes.tools)).toBe(false);
+    expect(hasChanges(changes.prompts)).toBe(false);
+  });
+
+  it('should ignore the order entries are listed in', () => {
+    const prompts = [{ name: 'a' }, { name: 'b' }];
+    const changes = diffCatalogs({ ...emptyCatalog, prompts }, { ...emptyCatalog, prompts: [...prompts].reverse() });
+
+    expect(hasChanges(changes.prompts)).toBe(false);
+  });
+});
+
+describe('formatCapabilityChanges', () => {
+  it('should list each changed category', () => {
+    const changes = diffCatalogs(
+      { ...emptyCatalog, prompts: [{ name: 'old' }] },
+      { ...emptyCatalog, resources: [{ uri: 'file:///a.txt', name: 'a' }] }
+    );
+
+    expect(formatCapabilityChanges(changes)).toBe([
+      'Prompts: 1 removed',
+      '  - old',
+      'Resources: 1 added',
+      '  + file:///a.txt'
+    ].join('\n'));
+  });
+
+  it('should say so when nothing changed', () => {
+    expect(formatCapabilityChanges(diffCatalogs(emptyCatalog, emptyCatalog))).toBe('No tools, prompts or resources changed.');
+  });
+});
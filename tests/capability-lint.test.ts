@@ -0,0 +1,117 @@
+/**
+ * Tests for capability lint - static checks of the metadata a server exposes
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { lintCapabilities } from '../src/capability-lint.js';
+import type { CapabilityCatalog } from '../src/capability-changes.js';
+
+const emptyCatalog: CapabilityCatalog = { tools: [], prompts: [], resources: [], resourceTemplates: [] };
+
+const lintTools = (...tools: Tool[]) => lintCapabilities({ ...emptyCatalog, tools });
+
+describe('lintCapabilities', () => {
+  it('should find nothing wrong with well-described tools', () => {
+    expect(lintTools({
+      name: 'search.files',
+      description: 'Search files',
+      inputSchema: {
+        type: 'object',
+        properties: { query: { $ref: '#/$defs/query' }, limit: { $ref: '#count' } },
+        required: ['query'],
+        $defs: { query: { type: 'string' }, count: { $anchor: 'count', type: 'integer' } }
+      }
+    })).toEqual({ findings: [], errors: 0, warnings: 0 });
+  });
+
+  it('should flag duplicate, invalid and reserved tool names', () => {
+    const report = lintTools(
+      { name: 'echo', description: 'Echo', inputSchema: { type: 'object' } },
+      { name: 'echo', description: 'Echo again', inputSchema: { type: 'object' } },
+      { name: 'say hello', description: 'Greet', inputSchema: { type: 'object' } },
+      { name: 'restart_server', description: 'Restart', inputSchema: { type: 'object' } }
+    );
+
+    expect(report.findings.map(({ rule, name }) => [rule, name])).toEqual([
+      ['duplicate-name', 'echo'],
+      ['reserved-name', 'restart_server'],
+      ['invalid-name', 'say hello']
+    ]);
+    expect(report.errors).toBe(3);
+  });
+
+  it('should warn about missing and overly long descriptions', () => {
+    const report = lintCapabilities({
+      ...emptyCatalog,
+      prompts: [{ name: 'summarize', description: 'x'.repeat(1025) }],
+      resources: [{ uri: 'file:///a.txt', name: 'a' }]
+    });
+
+    expect(report.findings).toEqual([
+      {
+        rule: 'description-too-long',
+        severity: 'warning',
+        kind: 'prompt',
+        name: 'summarize',
+        message: 'Description of summarize is 1025 characters long; keep it under 1024'
+      },
+      {
+        rule: 'missing-description',
+        severity: 'warning',
+        kind: 'resource',
+        name: 'file:///a.txt',
+        message: 'file:///a.txt has no description'
+      }
+    ]);
+    expect(report).toMatchObject({ errors: 0, warnings: 2 });
+  });
+
+  it('should check schemas down to nested subschemas', () => {
+    const report = lintTools({
+      name: 'create',
+      description: 'Create an item',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          item: {
+            type: 'object',
+            properties: { title: { type: 'string' } },
+            required: ['title', 'owner']
+          },
+          tags: { type: 'array', items: { $ref: '#/definitions/tag' } },
+          source: { $ref: 'https://example.com/source.json' }
+        }
+      },
+      outputSchema: { type: 'array' } as unknown as Tool['outputSchema']
+    });
+
+    expect(report.findings.map(({ rule, path, message }) => ({ rule, path, message }))).toEqual([
+      { rule: 'unused-required', path: '/inputSchema/properties/item', message: 'Required key "owner" is not among the properties' },
+      { rule: 'unresolved-ref', path: '/inputSchema/properties/tags/items', message: '$ref "#/definitions/tag" does not resolve within the schema' },
+      { rule: 'unresolved-ref', path: '/inputSchema/properties/source', message: '$ref "https://example.com/source.json" does not resolve within the schema' },
+      { rule: 'schema-not-object', path: '/outputSchema', message: 'outputSchema must have type "object"' }
+    ]);
+  });
+
+  it('should report schemas that are not objects instead of failing', () => {
+    const report = lintTools(
+      { name: 'nothing', description: 'Null schema', inputSchema: null as unknown as Tool['inputSchema'] },
+      { name: 'text', description: 'String schema', inputSchema: 'object' as unknown as Tool['inputSchema'] }
+    );
+
+    expect(report.findings.map(({ rule, name, path, message }) => ({ rule, name, path, message }))).toEqual([
+      { rule: 'schema-not-object', name: 'nothing', path: '/inputSchema', message: 'inputSchema must be a schema object, not null' },
+      { rule: 'schema-not-object', name: 'text', path: '/inputSchema', message: 'inputSchema must be a schema object, not string' }
+    ]);
+    expect(report.errors).toBe(2);
+  });
+
+  it('should not flag required keys matched by patternProperties', () => {
+    expect(lintTools({
+      name: 'env',
+      description: 'Set variables',
+      inputSchema: { type: 'object', properties: {}, patternProperties: { '^[A-Z_]+$': { type: 'string' } }, required: ['PATH'] }
+    }).findings).toEqual([]);
+  });
+});
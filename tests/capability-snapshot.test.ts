@@ -0,0 +1,145 @@
+/**
+ * Tests for capability snapshots - capturing, serializing and comparing what a server offers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ListResourcesRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  diffSnapshots,
+  loadSnapshot,
+  serializeSnapshot,
+  takeSnapshot,
+  type CapabilitySnapshot
+} from '../src/capability-snapshot.js';
+import { formatDifferences } from '../src/json-diff.js';
+
+const emptySnapshot: CapabilitySnapshot = {
+  serverInfo: { name: 'server', version: '1.0.0' },
+  capabilities: { tools: {} },
+  tools: [],
+  resources: [],
+  resourceTemplates: [],
+  prompts: []
+};
+
+describe('takeSnapshot', () => {
+  let server: Server;
+  let client: Client;
+
+  beforeEach(async () => {
+    server = new Server(
+      { name: 'server', version: '1.0.0' },
+      { capabilities: { tools: {}, resources: {} }, instructions: 'Use zeta last' }
+    );
+    // Two pages of tools, out of order
+    server.setRequestHandler(ListToolsRequestSchema, async (request) => request.params?.cursor
+      ? { tools: [{ name: 'alpha', inputSchema: { type: 'object' as const, properties: { b: {}, a: {} } } }] }
+      : { tools: [{ name: 'zeta', inputSchema: { type: 'object' as const } }], nextCursor: 'page-2' });
+    // resources/templates/list is not implemented
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: [{ uri: 'file:///b.txt', name: 'b' }, { uri: 'file:///a.txt', name: 'a' }]
+    }));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'snapshot', version: '1.0.0' });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('should capture every page of each advertised list, sorted', async () => {
+    const snapshot = await takeSnapshot(client);
+
+    expect(snapshot.serverInfo).toEqual({ name: 'server', version: '1.0.0' });
+    expect(snapshot.instructions).toBe('Use zeta last');
+    expect(snapshot.tools.map(tool => tool.name)).toEqual(['alpha', 'zeta']);
+    expect(snapshot.resources.map(resource => resource.uri)).toEqual(['file:///a.txt', 'file:///b.txt']);
+    expect(snapshot.resourceTemplates).toEqual([]);
+    expect(snapshot.prompts).toEqual([]);
+  });
+
+  it('should serialize with sorted keys so equal servers give identical files', async () => {
+    const serialized = serializeSnapshot(await takeSnapshot(client));
+
+    expect(serialized.indexOf('"capabilities"')).toBeLessThan(serialized.indexOf('"tools"'));
+    expect(serialized.indexOf('"a": {}')).toBeLessThan(serialized.indexOf('"b": {}'));
+    expect(serialized.endsWith('}\n')).toBe(true);
+    expect(serializeSnapshot(JSON.parse(serialized))).toBe(serialized);
+  });
+
+  it('should list tools whose schemas break the spec', async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'list', inputSchema: { type: 'array' } }]
+    }) as any);
+
+    expect((await takeSnapshot(client)).tools).toEqual([{ name: 'list', inputSchema: { type: 'array' } }]);
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('should address list entries by name instead of position', () => {
+    const expected: CapabilitySnapshot = {
+      ...emptySnapshot,
+      tools: [
+        { name: 'echo', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } },
+        { name: 'old', inputSchema: { type: 'object' } }
+      ]
+    };
+    const actual: CapabilitySnapshot = {
+      ...emptySnapshot,
+      tools: [
+        { name: 'added', inputSchema: { type: 'object' } },
+        { name: 'echo', inputSchema: { type: 'object', properties: { text: { type: 'number' } } } }
+      ]
+    };
+
+    expect(formatDifferences(diffSnapshots(expected, actual)).split('\n')).toEqual([
+      '+ /tools/added: {"name":"added","inputSchema":{"type":"object"}}',
+      '~ /tools/echo/inputSchema/properties/text/type: "string" -> "number"',
+      '- /tools/old: {"name":"old","inputSchema":{"type":"object"}}'
+    ]);
+  });
+
+  it('should find no differences between equal snapshots', () => {
+    expect(diffSnapshots(emptySnapshot, { ...emptySnapshot })).toEqual([]);
+  });
+});
+
+describe('loadSnapshot', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reloaderoo-snapshot-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read a serialized snapshot', () => {
+    const file = join(dir, 'snapshot.json');
+    writeFileSync(file, serializeSnapshot(emptySnapshot));
+
+    expect(loadSnapshot(file)).toEqual(emptySnapshot);
+  });
+
+  it.each([
+    ['invalid JSON', '{', /Cannot read snapshot/],
+    ['a file without the lists', '{"tools": []}', /is not a capability snapshot/]
+  ])('should reject %s', (_description, content, error) => {
+    const file = join(dir, 'snapshot.json');
+    writeFileSync(file, content);
+
+    expect(() => loadSnapshot(file)).toThrow(error);
+  });
+});
@@ -123,6 +123,50 @@ describe('Config', () => {
       expect(result.errors).toContain('childCommand is required');
     });
 
+    it('should accept a childUrl in place of childCommand', () => {
+      const result = config.validateConfig({
+        childUrl: 'http://localhost:8080/mcp',
+        restartCommand: 'docker compose restart mcp'
+      });
+      
+      expect(result.valid).toBe(true);
+      expect(result.config?.childCommand).toBe('');
+      expect(result.config?.childUrl).toBe('http://localhost:8080/mcp');
+      expect(result.config?.restartCommand).toBe('docker compose restart mcp');
+    });
+
+    it.each([
+      { childUrl: 'ws://localhost:8080', error: 'Invalid childUrl: ws://localhost:8080. Must be an http or https URL' },
+      { childUrl: 'not a url', error: 'Invalid childUrl: not a url. Must be an http or https URL' }
+    ])('should reject childUrl $childUrl', ({ childUrl, error }) => {
+      const result = config.validateConfig({ childUrl });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain(error);
+    });
+
+    it('should reject childCommand together with childUrl', () => {
+      const result = config.validateConfig({ childCommand: 'node', childUrl: 'http://localhost:8080/mcp' });
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('childCommand and childUrl cannot both be set');
+    });
+
+    it('should accept a childCommand that contains its arguments, with a warning', () => {
+      const result = config.validateConfig({ childCommand: 'node test-server.js', childArgs: ['--test'] });
+      
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toContain('childCommand contains arguments: "node test-server.js". ' +
+        'Put only the executable in childCommand and the arguments in childArgs');
+    });
+
+    it('should warn that restartCommand needs childUrl', () => {
+      const result = config.validateConfig({ childCommand: 'node', restartCommand: 'true' });
+      
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toContain('restartCommand is only used with childUrl and will be ignored');
+    });
+
     it.each([
       { logLevel: 'debug', valid: true, description: 'debug level' },
       { logLevel: 'info', valid: true, description: 'info level' },
@@ -164,7 +208,25 @@ describe('Config', () => {
       { field: 'restartDelay', value: 0, valid: true, errorContains: null },
       { field: 'restartDelay', value: 30000, valid: true, errorContains: null },
       { field: 'restartDelay', value: 60000, valid: true, errorContains: null },
-      { field: 'restartDelay', value: 60001, valid: false, errorContains: 'restartDelay must be between 0ms and 60000ms' }
+      { field: 'restartDelay', value: 60001, valid: false, errorContains: 'restartDelay must be between 0ms and 60000ms' },
+      { field: 'requestTimeout', value: 999, valid: false, errorContains: 'requestTimeout must be between 1000ms and 3600000ms' },
+      { field: 'requestTimeout', value: 600000, valid: true, errorContains: null },
+      { field: 'requestTimeout', value: 3600001, valid: false, errorContains: 'requestTimeout must be between 1000ms and 3600000ms' },
+      { field: 'maxTotalTimeout', value: 999, valid: false, errorContains: 'maxTotalTimeout must be between 1000ms and 3600000ms' },
+      { field: 'maxTotalTimeout', value: 600000, valid: true, errorContains: null },
+      { field: 'buildTimeout', value: 999, valid: false, errorContains: 'buildTimeout must be between 1000ms and 3600000ms' },
+      { field: 'buildTimeout', value: 600000, valid: true, errorContains: null },
+      { field: 'toolTimeouts', value: { build: 300000 }, valid: true, errorContains: null },
+      { field: 'toolTimeouts', value: { build: 10 }, valid: false, errorContains: 'Timeout for tool build must be between 1000ms and 3600000ms' },
+      { field: 'toolTimeouts', value: ['build'], valid: false, errorContains: 'toolTimeouts must be an object mapping tool names to milliseconds' },
+      { field: 'port', value: 0, valid: true, errorContains: null },
+      { field: 'port', value: 3000, valid: true, errorContains: null },
+      { field: 'port', value: 65536, valid: false, errorContains: 'port must be an integer between 0 and 65535' },
+      { field: 'transport', value: 'http', valid: true, errorContains: null },
+      { field: 'allowedHosts', value: ['localhost:3000'], valid: true, errorContains: null },
+      { field: 'allowedHosts', value: 'localhost:3000', valid: false, errorContains: 'allowedHosts must be an array of strings' },
+      { field: 'allowedOrigins', value: [8080], valid: false, errorContains: 'allowedOrigins must be an array of strings' },
+      { field: 'transport', value: 'websocket', valid: false, errorContains: 'Invalid transport: websocket. Must be one of: stdio, http' }
     ])('should validate $field with value $value', ({ field, value, valid, errorContains }) => {
       const testConfig = {
         childCommand: 'node',
@@ -312,6 +374,41 @@ describe('Config', () => {
     });
   });
 
+  describe('loadProxyConfig', () => {
+    const proxyConfig: ProxyConfig = {
+      childCommand: 'node',
+      childArgs: ['server.js'],
+      workingDirectory: process.cwd(),
+      environment: { EXISTING: 'yes' },
+      restartLimit: 3,
+      operationTimeout: 30000,
+      logLevel: 'info',
+      autoRestart: true,
+      restartDelay: 1000
+    };
+
+    it('should load an assembled configuration as the base for updates', () => {
+      const result = config.loadProxyConfig(proxyConfig);
+      expect(result.valid).toBe(true);
+      
+      const updated = config.updateConfig({ childCommand: 'npm', environment: { ADDED: '1' } });
+      
+      expect(updated.valid).toBe(true);
+      expect(updated.config?.childCommand).toBe('npm');
+      expect(updated.config?.childArgs).toEqual(['server.js']);
+      expect(updated.config?.environment).toEqual({ EXISTING: 'yes', ADDED: '1' });
+    });
+
+    it('should reject updates with values of the wrong type', () => {
+      config.loadProxyConfig(proxyConfig);
+      
+      const result = config.updateConfig({ childCommand: 42, workingDirectory: ['/tmp'] } as any);
+      
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(['childCommand must be a string', 'workingDirectory must be a string']);
+    });
+  });
+
   describe('getConfigSummary', () => {
     it('should return comprehensive configuration summary', () => {
       process.env.MCPDEV_PROXY_CHILD_CMD = 'node';
@@ -0,0 +1,67 @@
+/**
+ * Tests for DeferredServerTransport - holding a client's messages until the server connects
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LATEST_PROTOCOL_VERSION, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { DeferredServerTransport } from '../src/deferred-server-transport.js';
+
+describe('DeferredServerTransport', () => {
+  let client: InMemoryTransport;
+  let transport: DeferredServerTransport;
+
+  const initialize: JSONRPCMessage = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: { sampling: {} },
+      clientInfo: { name: 'client', version: '1.0.0' }
+    }
+  };
+  const ping: JSONRPCMessage = { jsonrpc: '2.0', id: 2, method: 'ping' };
+
+  beforeEach(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = clientTransport;
+    await client.start();
+    transport = new DeferredServerTransport(serverTransport);
+  });
+
+  it('should resolve with the initialize request and hold messages until started', async () => {
+    const receiving = transport.receiveInitialize();
+    await client.send(initialize);
+    await client.send(ping);
+
+    const request = await receiving;
+    expect(request.params.capabilities).toEqual({ sampling: {} });
+
+    const delivered: JSONRPCMessage[] = [];
+    transport.onmessage = (message) => delivered.push(message);
+    expect(delivered).toEqual([]);
+
+    await transport.start();
+    await client.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    expect(delivered).toEqual([initialize, ping, { jsonrpc: '2.0', method: 'notifications/initialized' }]);
+  });
+
+  it('should send through the underlying transport', async () => {
+    const received: JSONRPCMessage[] = [];
+    client.onmessage = (message) => received.push(message);
+
+    await transport.send({ jsonrpc: '2.0', id: 1, result: {} });
+
+    expect(received).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }]);
+  });
+
+  it('should reject when the client disconnects before initializing', async () => {
+    const receiving = transport.receiveInitialize();
+
+    await client.close();
+
+    await expect(receiving).rejects.toThrow('Client disconnected before initializing');
+  });
+});
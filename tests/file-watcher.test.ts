@@ -0,0 +1,198 @@
+/**
+ * Tests for FileWatcher - glob matching and debounced change detection
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, watch } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FileWatcher, globToRegExp, matchesAnyGlob } from '../src/file-watcher.js';
+
+// Capture the fs.watch listener so tests can emit file events synchronously
+vi.mock('fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs')>();
+  return {
+    ...actual,
+    watch: vi.fn()
+  };
+});
+
+// Mock logger
+vi.mock('../src/mcp-logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+describe('globToRegExp', () => {
+  it('should match single-segment wildcards', () => {
+    expect(globToRegExp('*.ts').test('server.ts')).toBe(true);
+    expect(globToRegExp('*.ts').test('src/server.ts')).toBe(false);
+    expect(globToRegExp('file?.js').test('file1.js')).toBe(true);
+  });
+
+  it('should match globstar across directories', () => {
+    const regex = globToRegExp('src/**/*.ts');
+    expect(regex.test('src/server.ts')).toBe(true);
+    expect(regex.test('src/tools/deep/tool.ts')).toBe(true);
+    expect(regex.test('lib/server.ts')).toBe(false);
+  });
+
+  it('should support brace alternatives', () => {
+    const regex = globToRegExp('src/**/*.{ts,js}');
+    expect(regex.test('src/a.ts')).toBe(true);
+    expect(regex.test('src/a.js')).toBe(true);
+    expect(regex.test('src/a.py')).toBe(false);
+  });
+});
+
+describe('matchesAnyGlob', () => {
+  it('should match patterns without a slash against the file name', () => {
+    expect(matchesAnyGlob('src/nested/server.py', ['*.py'])).toBe(true);
+  });
+
+  it('should match default ignore patterns at any depth', () => {
+    const ignore = ['**/node_modules/**', '**/dist/**', '**/.git/**'];
+    expect(matchesAnyGlob('node_modules/pkg/index.js', ignore)).toBe(true);
+    expect(matchesAnyGlob('packages/a/dist/index.js', ignore)).toBe(true);
+    expect(matchesAnyGlob('.git/HEAD', ignore)).toBe(true);
+    expect(matchesAnyGlob('src/index.js', ignore)).toBe(false);
+  });
+});
+
+describe('FileWatcher', () => {
+  let emitFileEvent: (filename: string) => void;
+  let mockWatcher: { on: ReturnType<typeof vi.fn>; close: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    mockWatcher = { on: vi.fn(), close: vi.fn() };
+    vi.mocked(watch).mockImplementation(((_path: string, _options: unknown, listener: Function) => {
+      emitFileEvent = (filename: string) => listener('change', filename);
+      return mockWatcher;
+    }) as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('should emit a single debounced change for a burst of edits', () => {
+    const watcher = new FileWatcher({ rootDirectory: '/project', patterns: ['src/**/*.ts'], debounceMs: 100 });
+    const onChange = vi.fn();
+    watcher.on('change', onChange);
+    watcher.start();
+
+    emitFileEvent('src/a.ts');
+    vi.advanceTimersByTime(50);
+    emitFileEvent('src/b.ts');
+    emitFileEvent('src/a.ts');
+    expect(onChange).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(100);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith('src/a.ts', ['src/a.ts', 'src/b.ts']);
+  });
+
+  it('should ignore files outside the patterns and in ignored directories', () => {
+    const watcher = new FileWatcher({ rootDirectory: '/project', patterns: ['**/*.js'], debounceMs: 10 });
+    const onChange = vi.fn();
+    watcher.on('change', onChange);
+    watcher.start();
+
+    emitFileEvent('README.md');
+    emitFileEvent('node_modules/pkg/index.js');
+    emitFileEvent('dist/server.js');
+    vi.advanceTimersByTime(20);
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should add ignore patterns to the defaults', () => {
+    const watcher = new FileWatcher({ rootDirectory: '/project', patterns: ['**/*.js'], ignorePatterns: ['fixtures/**'], debounceMs: 10 });
+    const onChange = vi.fn();
+    watcher.on('change', onChange);
+    watcher.start();
+
+    emitFileEvent('fixtures/server.js');
+    emitFileEvent('node_modules/pkg/index.js');
+    vi.advanceTimersByTime(20);
+    expect(onChange).not.toHaveBeenCalled();
+
+    emitFileEvent('src/server.js');
+    vi.advanceTimersByTime(20);
+    expect(onChange).toHaveBeenCalledWith('src/server.js', ['src/server.js']);
+  });
+
+  it('should discard pending changes when closed', () => {
+    const watcher = new FileWatcher({ rootDirectory: '/project', patterns: ['*.ts'], debounceMs: 100 });
+    const onChange = vi.fn();
+    watcher.on('change', onChange);
+    watcher.start();
+
+    emitFileEvent('server.ts');
+    watcher.close();
+    vi.advanceTimersByTime(200);
+
+    expect(onChange).not.toHaveBeenCalled();
+    expect(mockWatcher.close).toHaveBeenCalled();
+    expect(watcher.isWatching()).toBe(false);
+  });
+
+  describe('without recursive fs.watch', () => {
+    let root: string;
+    let listeners: Map<string, Function>;
+
+    beforeEach(() => {
+      root = mkdtempSync(join(tmpdir(), 'reloaderoo-watch-'));
+      mkdirSync(join(root, 'src', 'tools'), { recursive: true });
+      mkdirSync(join(root, 'node_modules', 'pkg'), { recursive: true });
+
+      // Linux before Node 20 rejects recursive watching
+      listeners = new Map();
+      vi.mocked(watch).mockImplementation(((path: string, options: unknown, listener?: Function) => {
+        if (typeof options === 'object' && (options as { recursive?: boolean }).recursive) {
+          throw Object.assign(new TypeError('The feature watch recursively is unavailable on the current platform'), {
+            code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM'
+          });
+        }
+        listeners.set(path, (listener ?? options) as Function);
+        return { on: vi.fn(), close: vi.fn() };
+      }) as any);
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should watch each directory that is not ignored', () => {
+      const watcher = new FileWatcher({ rootDirectory: root, patterns: ['src/**/*.ts'], debounceMs: 10 });
+      const onChange = vi.fn();
+      watcher.on('change', onChange);
+      watcher.start();
+
+      expect([...listeners.keys()].sort()).toEqual([root, join(root, 'src'), join(root, 'src', 'tools')]);
+
+      listeners.get(join(root, 'src', 'tools'))!('change', 'echo.ts');
+      vi.advanceTimersByTime(20);
+      expect(onChange).toHaveBeenCalledWith('src/tools/echo.ts', ['src/tools/echo.ts']);
+    });
+
+    it('should start watching directories created later', () => {
+      const watcher = new FileWatcher({ rootDirectory: root, patterns: ['src/**/*.ts'], debounceMs: 10 });
+      watcher.start();
+
+      mkdirSync(join(root, 'src', 'new'));
+      listeners.get(join(root, 'src'))!('rename', 'new');
+
+      expect(listeners.has(join(root, 'src', 'new'))).toBe(true);
+      watcher.close();
+      expect(watcher.isWatching()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for HttpTransportServer - Streamable HTTP and legacy SSE upstream sessions
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { request } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportServer } from '../src/http-transport-server.js';
+
+// Mock logger
+vi.mock('../src/mcp-logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+describe('HttpTransportServer', () => {
+  let httpServer: HttpTransportServer;
+  let sessions: Server[];
+  let closed: Server[];
+  let clients: Client[];
+
+  beforeEach(async () => {
+    sessions = [];
+    closed = [];
+    clients = [];
+    httpServer = new HttpTransportServer({
+      port: 0,
+      host: '127.0.0.1',
+      createSession: () => {
+        const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({
+          tools: [{ name: `tool_${sessions.indexOf(server)}`, inputSchema: { type: 'object' as const } }]
+        }));
+        server.onclose = () => closed.push(server);
+        sessions.push(server);
+        return server;
+      }
+    });
+    await httpServer.start();
+  });
+
+  afterEach(async () => {
+    for (const client of clients) {
+      await client.close().catch(() => undefined);
+    }
+    await httpServer.close();
+  });
+
+  async function connect(transport: StreamableHTTPClientTransport | SSEClientTransport): Promise<Client> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  }
+
+  it('should serve concurrent Streamable HTTP sessions with their own servers', async () => {
+    const first = await connect(new StreamableHTTPClientTransport(new URL(httpServer.getUrl())));
+    const second = await connect(new StreamableHTTPClientTransport(new URL(httpServer.getUrl())));
+
+    expect((await first.listTools()).tools[0]?.name).toBe('tool_0');
+    expect((await second.listTools()).tools[0]?.name).toBe('tool_1');
+    expect(httpServer.sessionCount()).toBe(2);
+  });
+
+  it('should serve legacy SSE clients', async () => {
+    const client = await connect(new SSEClientTransport(new URL(httpServer.getUrl('/sse'))));
+
+    expect((await client.listTools()).tools[0]?.name).toBe('tool_0');
+    expect(httpServer.sessionCount()).toBe(1);
+  });
+
+  it('should reject requests for unknown sessions', async () => {
+    const response = await fetch(httpServer.getUrl(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        'mcp-session-id': 'missing'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should require an initialize request to open a session', async () => {
+    const response = await fetch(httpServer.getUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(400);
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should close the server of an initialize request the transport rejects', async () => {
+    const response = await fetch(httpServer.getUrl(), {
+      method: 'POST',
+      // Streamable HTTP requires accepting both JSON and an event stream
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+      })
+    });
+
+    expect(response.status).toBe(406);
+    expect(sessions).toHaveLength(1);
+    expect(closed).toEqual(sessions);
+    expect(httpServer.sessionCount()).toBe(0);
+  });
+
+  it('should reject malformed JSON', async () => {
+    const response = await fetch(httpServer.getUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+      body: '{not json'
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe(-32700);
+  });
+
+  it('should drop a session when the client terminates it', async () => {
+    const transport = new StreamableHTTPClientTransport(new URL(httpServer.getUrl()));
+    await connect(transport);
+    expect(httpServer.sessionCount()).toBe(1);
+
+    await transport.terminateSession();
+
+    expect(httpServer.sessionCount()).toBe(0);
+  });
+
+  it('should end expired sessions on their next request so clients re-initialize', async () => {
+    const expired = await connect(new StreamableHTTPClientTransport(new URL(httpServer.getUrl())));
+
+    httpServer.expireSessions();
+    const fresh = await connect(new StreamableHTTPClientTransport(new URL(httpServer.getUrl())));
+
+    await expect(expired.listTools()).rejects.toThrow(/404/);
+    expect((await fresh.listTools()).tools[0]?.name).toBe('tool_1');
+    expect(httpServer.sessionCount()).toBe(1);
+  });
+
+  describe('DNS rebinding protection', () => {
+    /** Open an SSE stream with the given headers and report the status; node:http lets Host be set */
+    function openSse(headers: Record<string, string>, server: HttpTransportServer = httpServer): Promise<number> {
+      return new Promise((resolve, reject) => {
+        const req = request(server.getUrl('/sse'), { headers }, (res) => {
+          resolve(res.statusCode ?? 0);
+          res.destroy();
+        });
+        req.on('error', reject);
+        req.end();
+      });
+    }
+
+    it('should reject requests from other origins and hosts with 403', async () => {
+      const { port } = new URL(httpServer.getUrl());
+
+      expect(await openSse({ Origin: 'http://evil.example' })).toBe(403);
+      expect(await openSse({ Host: `evil.example:${port}` })).toBe(403);
+      const response = await fetch(httpServer.getUrl(), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json, text/event-stream',
+          'Origin': 'http://evil.example'
+        },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize' })
+      });
+      expect(response.status).toBe(403);
+      expect(sessions).toHaveLength(0);
+    });
+
+    it('should accept loopback hosts, matching origins and clients without an Origin', async () => {
+      const { port } = new URL(httpServer.getUrl());
+
+      expect(await openSse({ Host: `localhost:${port}`, Origin: `http://localhost:${port}` })).toBe(200);
+      expect(await openSse({ Origin: `http://127.0.0.1:${port}` })).toBe(200);
+      await connect(new StreamableHTTPClientTransport(new URL(httpServer.getUrl())));
+      expect(httpServer.sessionCount()).toBe(1);
+    });
+
+    it('should use the configured hosts and origins instead of the defaults', async () => {
+      const custom = new HttpTransportServer({
+        port: 0,
+        host: '127.0.0.1',
+        allowedHosts: ['mcp.example'],
+        allowedOrigins: ['https://app.example'],
+        createSession: () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} })
+      });
+      await custom.start();
+      try {
+        expect(await openSse({ Host: 'mcp.example', Origin: 'https://app.example' }, custom)).toBe(200);
+        expect(await openSse({ Host: 'mcp.example', Origin: 'http://mcp.example' }, custom)).toBe(403);
+        expect(await openSse({}, custom)).toBe(403);
+      } finally {
+        await custom.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Tests for InFlightRequests - relaying cancellation and progress across the proxy's two hops
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolRequestSchema, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PROXY_SPECIFIC_ERROR_CODES } from '../src/errors.js';
+import { InFlightRequests, type UpstreamRequestExtra } from '../src/in-flight-requests.js';
+
+// Mock logger
+vi.mock('../src/mcp-logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+describe('InFlightRequests', () => {
+  let child: Server;
+  let client: Client;
+  let childSignals: AbortSignal[];
+  let inFlight: InFlightRequests;
+
+  beforeEach(async () => {
+    childSignals = [];
+    child = new Server({ name: 'child', version: '1.0.0' }, { capabilities: { tools: {} } });
+    // A slow tool: reports progress, then runs until cancelled
+    child.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      childSignals.push(extra.signal);
+      const progressToken = request.params._meta?.progressToken;
+      if (progressToken !== undefined) {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress: 1, total: 2, message: 'halfway' }
+        });
+      }
+      // A busy tool keeps reporting progress but never finishes
+      if (request.params.name === 'busy' && progressToken !== undefined) {
+        let progress = 1;
+        const timer = setInterval(() => {
+          extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress: ++progress } }).catch(() => {});
+        }, 20);
+        extra.signal.addEventListener('abort', () => clearInterval(timer));
+      }
+      await new Promise(resolve => extra.signal.addEventListener('abort', resolve));
+      return { content: [] };
+    });
+
+    const [clientTransport, childTransport] = InMemoryTransport.createLinkedPair();
+    await child.connect(childTransport);
+    client = new Client({ name: 'proxy', version: '1.0.0' });
+    await client.connect(clientTransport);
+    inFlight = new InFlightRequests();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  function upstreamExtra(progressToken?: string): UpstreamRequestExtra & { controller: AbortController } {
+    const controller = new AbortController();
+    return {
+      controller,
+      signal: controller.signal,
+      requestId: 7,
+      ...(progressToken !== undefined && { _meta: { progressToken } }),
+      sendNotification: vi.fn().mockResolvedValue(undefined),
+      sendRequest: vi.fn()
+    } as any;
+  }
+
+  const callSlowTool = (extra: UpstreamRequestExtra) =>
+    inFlight.forward(client, { method: 'tools/call', tool: 'slow' }, extra, (options) => client.callTool({ name: 'slow' }, undefined, options));
+
+  it('should relay child progress against the caller\'s progress token', async () => {
+    const extra = upstreamExtra('caller-token');
+    const call = callSlowTool(extra);
+
+    await vi.waitFor(() => expect(extra.sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'caller-token', progress: 1, total: 2, message: 'halfway' }
+    }));
+
+    extra.controller.abort('done');
+    await expect(call).rejects.toBe('done');
+  });
+
+  it('should cancel the child request when the caller cancels', async () => {
+    const extra = upstreamExtra();
+    const call = callSlowTool(extra);
+    await vi.waitFor(() => expect(childSignals).toHaveLength(1));
+    expect(inFlight.count(client)).toBe(1);
+
+    extra.controller.abort('user cancelled');
+
+    await expect(call).rejects.toBe('user cancelled');
+    await vi.waitFor(() => expect(childSignals[0]!.aborted).toBe(true));
+    expect(inFlight.count(client)).toBe(0);
+  });
+
+  it('should cancel everything in flight on a child', async () => {
+    const calls = [callSlowTool(upstreamExtra()), callSlowTool(upstreamExtra())];
+    await vi.waitFor(() => expect(childSignals).toHaveLength(2));
+    const reason = new McpError(-32001, 'Child server restarted');
+
+    inFlight.cancelAll(client, reason);
+
+    await expect(calls[0]).rejects.toBe(reason);
+    await expect(calls[1]).rejects.toBe(reason);
+    await vi.waitFor(() => expect(childSignals.every(signal => signal.aborted)).toBe(true));
+    expect(inFlight.count(client)).toBe(0);
+  });
+
+  it('should cancel a request that outlives its timeout and report the tool and elapsed time', async () => {
+    inFlight = new InFlightRequests({ requestTimeout: 60000, toolTimeouts: { slow: 50 } });
+
+    const error = await callSlowTool(upstreamExtra()).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error).toMatchObject({
+      code: PROXY_SPECIFIC_ERROR_CODES.CHILD_TIMEOUT,
+      data: { method: 'tools/call', tool: 'slow', timeout: 50, elapsedMs: expect.any(Number) }
+    });
+    expect((error as McpError).message).toMatch(/did not answer tool slow within 50ms \(cancelled after \d+ms\)/);
+    await vi.waitFor(() => expect(childSignals[0]!.aborted).toBe(true));
+  });
+
+  it('should cancel a request whose progress outlasts the total timeout', async () => {
+    inFlight = new InFlightRequests({ requestTimeout: 100, maxTotalTimeout: 300 });
+    const extra = upstreamExtra('caller-token');
+
+    const error = await inFlight.forward(client, { method: 'tools/call', tool: 'busy' }, extra,
+      (options) => client.callTool({ name: 'busy' }, undefined, options)).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({
+      code: PROXY_SPECIFIC_ERROR_CODES.CHILD_TIMEOUT,
+      data: { method: 'tools/call', tool: 'busy', timeout: 300, elapsedMs: expect.any(Number) }
+    });
+    expect((error as McpError).message).toMatch(/did not finish tool busy within the total limit of 300ms/);
+    expect((error as McpError).data.elapsedMs).toBeGreaterThanOrEqual(300);
+    // Progress kept the request alive past its own timeout
+    expect(vi.mocked(extra.sendNotification).mock.calls.length).toBeGreaterThan(5);
+    await vi.waitFor(() => expect(childSignals[0]!.aborted).toBe(true));
+  });
+
+  it('should use per-tool timeouts over the default', () => {
+    inFlight = new InFlightRequests({ requestTimeout: 5000, toolTimeouts: { build: 300000 } });
+
+    expect(inFlight.getTimeout({ method: 'tools/call', tool: 'build' })).toBe(300000);
+    expect(inFlight.getTimeout({ method: 'tools/call', tool: 'echo' })).toBe(5000);
+    expect(inFlight.getTimeout({ method: 'resources/read' })).toBe(5000);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for the interactive inspect shell
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PassThrough } from 'stream';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListToolsRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { InspectShell } from '../src/cli/inspect-shell.js';
+
+describe('InspectShell', () => {
+  let output: PassThrough;
+  let connections: number;
+
+  const printed = (): string => output.read()?.toString() ?? '';
+
+  const createShell = (input?: PassThrough): InspectShell => new InspectShell({
+    connect: async () => {
+      const generation = ++connections;
+      const server = new Server(
+        { name: 'server', version: `${generation}.0.0` },
+        { capabilities: { tools: {}, prompts: {} } }
+      );
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: [{
+          name: 'echo',
+          description: 'Echo the text',
+          inputSchema: { type: 'object' as const, properties: { text: {}, times: {} } }
+        }]
+      }));
+      server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+        content: [{ type: 'text' as const, text: `${generation}: ${String(request.params.arguments?.['text'])}` }]
+      }));
+      server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+        prompts: [{ name: 'greet', arguments: [{ name: 'who' }] }]
+      }));
+      server.setRequestHandler(GetPromptRequestSchema, async (request) => ({
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text: `Hi ${request.params.arguments?.['who']}` } }]
+      }));
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'shell', version: '1.0.0' });
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+      return client;
+    },
+    close: (client) => client.close(),
+    output,
+    ...(input && { input })
+  });
+
+  beforeEach(() => {
+    output = new PassThrough();
+    connections = 0;
+  });
+
+  it('should run commands over one connection until exit', async () => {
+    const input = new PassThrough();
+    const running = createShell(input).start();
+
+    input.end('tools\ncall echo {"text": "hi"}\nexit\ncall echo {"text": "ignored"}\n');
+    await running;
+
+    const text = printed();
+    expect(text).toContain('Connected to server 1.0.0 (1 tools, 1 prompts, 0 resources)');
+    expect(text).toContain('echo - Echo the text');
+    expect(text).toContain('"text": "1: hi"');
+    expect(text).not.toContain('ignored');
+    expect(connections).toBe(1);
+  });
+
+  it('should print errors and keep going', async () => {
+    const input = new PassThrough();
+    const running = createShell(input).start();
+
+    input.end([
+      'call echo {text}',
+      'call echo ["hi"]',
+      'read',
+      'frobnicate',
+      'prompt greet {"who": "Ada"}',
+      ''
+    ].join('\n'));
+    await running;
+
+    const text = printed();
+    expect(text).toMatch(/Error: Invalid JSON arguments/);
+    expect(text).toContain('Error: Arguments must be a JSON object\n');
+    expect(text).toContain('Error: Usage: read <uri>\n');
+    expect(text).toContain("Unknown command: frobnicate. Type 'help' for the list of commands.\n");
+    expect(text).toContain('"text": "Hi Ada"');
+  });
+
+  it('should reconnect on restart', async () => {
+    const input = new PassThrough();
+    const running = createShell(input).start();
+
+    input.end('restart\ncall echo {"text": "again"}\n');
+    await running;
+
+    const text = printed();
+    expect(text).toContain('Connected to server 2.0.0');
+    expect(text).toContain('"text": "2: again"');
+    expect(connections).toBe(2);
+  });
+
+  describe('complete', () => {
+    let input: PassThrough;
+    let shell: InspectShell;
+    let running: Promise<void>;
+
+    beforeEach(async () => {
+      input = new PassThrough();
+      shell = createShell(input);
+      running = shell.start();
+      // The catalog is listed by the time the connection message is printed
+      await vi.waitFor(() => expect(printed()).toContain('Connected to server'));
+    });
+
+    afterEach(async () => {
+      input.end();
+      await running;
+    });
+
+    it('should complete commands and names', () => {
+      expect(shell.complete('re')).toEqual([['resources', 'read', 'restart'], 're']);
+      expect(shell.complete('call e')).toEqual([['echo'], 'e']);
+      expect(shell.complete('prompt ')).toEqual([['greet'], '']);
+    });
+
+    it('should complete argument keys that are not given yet', () => {
+      expect(shell.complete('call echo {')).toEqual([['"text": ', '"times": '], '']);
+      expect(shell.complete('call echo {"text": "hi", "t')).toEqual([['"times": '], '"t']);
+      expect(shell.complete('prompt greet {w')).toEqual([['"who": '], 'w']);
+      expect(shell.complete('call echo {"text": "h')).toEqual([[], '']);
+    });
+  });
+});
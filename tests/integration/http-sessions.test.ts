@@ -0,0 +1,78 @@
+/**
+ * HTTP session integration tests
+ * Two client sessions sharing one child server through a real proxy
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CreateMessageRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ProxyConfig } from '../../src/types.js';
+import {
+  cleanupProxyHarness,
+  startHttpChild,
+  startHttpProxy,
+  type HttpProxy,
+  type ProxyClient
+} from '../utils/ProxyHarness.js';
+
+vi.mock('../../src/mcp-logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    fatal: vi.fn()
+  }
+}));
+
+describe('HTTP client sessions sharing a child', () => {
+  let child: Awaited<ReturnType<typeof startHttpChild>>;
+  let proxy: HttpProxy;
+
+  beforeEach(async () => {
+    child = await startHttpChild();
+    const config: ProxyConfig = {
+      childCommand: '',
+      childArgs: [],
+      childUrl: child.url,
+      workingDirectory: process.cwd(),
+      environment: {},
+      restartLimit: 3,
+      operationTimeout: 10000,
+      logLevel: 'error',
+      autoRestart: false,
+      restartDelay: 1000
+    };
+    proxy = await startHttpProxy(config);
+  });
+
+  afterEach(async () => {
+    await cleanupProxyHarness();
+  });
+
+  async function connect(name: string, sampling: boolean): Promise<ProxyClient> {
+    const session = await proxy.connect({ name, capabilities: sampling ? { sampling: {} } : {} });
+    if (sampling) {
+      session.client.setRequestHandler(CreateMessageRequestSchema, async () => ({
+        role: 'assistant' as const,
+        content: { type: 'text' as const, text: `answered by ${name}` },
+        model: 'test'
+      }));
+    }
+    return session;
+  }
+
+  it('should keep the child connected as sessions arrive and route sampling to the session that supports it', async () => {
+    const sampler = await connect('sampler', true);
+    const plain = await connect('plain', false);
+    // Arriving sessions never reconnect the shared child
+    expect(child.initializations()).toBe(1);
+
+    // The child is offered sampling from its next restart
+    await plain.restart();
+    const [fromPlain, fromSampler] = await Promise.all([plain.call('ask'), sampler.call('ask')]);
+
+    expect(fromPlain).toBe('answered by sampler');
+    expect(fromSampler).toBe('answered by sampler');
+    expect(child.initializations()).toBe(2);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Tests for diffJson - structural comparison of JSON values
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffJson } from '../src/json-diff.js';
+
+describe('diffJson', () => {
+  it('should report no differences for equal values regardless of key order', () => {
+    expect(diffJson({ a: 1, b: [1, { c: 'x' }] }, { b: [1, { c: 'x' }], a: 1 })).toEqual([]);
+  });
+
+  it('should report changed, missing and added values at their JSON pointer', () => {
+    expect(diffJson(
+      { name: 'echo', schema: { required: ['text'] }, removed: true },
+      { name: 'echo2', schema: { required: ['text', 'mode'] }, added: 1 }
+    )).toEqual([
+      { path: '/added', actual: 1 },
+      { path: '/name', expected: 'echo', actual: 'echo2' },
+      { path: '/removed', expected: true },
+      { path: '/schema/required/1', actual: 'mode' }
+    ]);
+  });
+
+  it('should escape keys containing / and ~', () => {
+    expect(diffJson({ 'a/b': 1, 'c~d': 1 }, { 'a/b': 2, 'c~d': 2 })).toEqual([
+      { path: '/a~1b', expected: 1, actual: 2 },
+      { path: '/c~0d', expected: 1, actual: 2 }
+    ]);
+  });
+
+  it('should report a type change as a single difference', () => {
+    expect(diffJson({ value: [1] }, { value: { 0: 1 } })).toEqual([
+      { path: '/value', expected: [1], actual: { 0: 1 } }
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for NotificationForwarder - relaying only the active child's notifications
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { NotificationForwarder } from '../src/handlers/notification-forwarder.js';
+
+// Mock logger
+vi.mock('../src/mcp-logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+describe('NotificationForwarder', () => {
+  let notify: ReturnType<typeof vi.fn>;
+  let handleListChanged: ReturnType<typeof vi.fn>;
+  let forwarder: NotificationForwarder;
+
+  beforeEach(() => {
+    notify = vi.fn().mockResolvedValue(undefined);
+    handleListChanged = vi.fn().mockResolvedValue(undefined);
+    forwarder = new NotificationForwarder(notify, handleListChanged);
+  });
+
+  /** A child server and the client the forwarder is attached to */
+  async function connectChild(): Promise<{ child: Server; client: Client }> {
+    const child = new Server({ name: 'child', version: '1.0.0' }, { capabilities: { tools: { listChanged: true }, logging: {} } });
+    const client = new Client({ name: 'reloaderoo', version: '1.0.0' });
+    forwarder.attach(client);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([child.connect(serverTransport), client.connect(clientTransport)]);
+    return { child, client };
+  }
+
+  const message = (data: string) => ({ method: 'notifications/message' as const, params: { level: 'info' as const, data } });
+
+  it('should relay notifications of the active child', async () => {
+    const { child, client } = await connectChild();
+    forwarder.updateChildClient(client);
+
+    await child.notification(message('hello'));
+
+    await vi.waitFor(() => expect(notify).toHaveBeenCalledWith(expect.objectContaining(message('hello'))));
+  });
+
+  it('should drop notifications from a retired child', async () => {
+    const retired = await connectChild();
+    const active = await connectChild();
+    forwarder.updateChildClient(active.client);
+
+    await retired.child.notification(message('stale'));
+    await retired.child.notification({ method: 'notifications/tools/list_changed' });
+    await active.child.notification(message('fresh'));
+
+    await vi.waitFor(() => expect(notify).toHaveBeenCalledTimes(1));
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining(message('fresh')));
+    expect(handleListChanged).not.toHaveBeenCalled();
+  });
+});
@@ -247,6 +247,18 @@ describe('ProcessManager', () => {
       expect(startedListener).toHaveBeenCalledWith(12345);
     });
 
+    it('should spawn a command path that contains spaces as one executable', async () => {
+      processManager = new ProcessManager({ ...mockConfig, childCommand: '/tmp/sp ace/mynode' });
+
+      await processManager.spawn();
+
+      expect(mockSpawn).toHaveBeenCalledWith(
+        '/tmp/sp ace/mynode',
+        ['--test'],
+        expect.any(Object)
+      );
+    });
+
     it('should handle spawn errors', async () => {
       const errorListener = vi.fn();
       processManager.on('error', errorListener);
@@ -421,6 +433,83 @@ describe('ProcessManager', () => {
     });
   });
 
+  describe('crash handling', () => {
+    let crashingManager: ProcessManager;
+
+    beforeEach(async () => {
+      crashingManager = new ProcessManager({ ...mockConfig, autoRestart: true, restartLimit: 2 });
+      const spawnPromise = crashingManager.spawn();
+      await vi.advanceTimersByTimeAsync(0);
+      await spawnPromise;
+    });
+
+    it('should back off exponentially across consecutive crashes', async () => {
+      const crashedListener = vi.fn();
+      const restartedListener = vi.fn();
+      crashingManager.on('crashed', crashedListener);
+      crashingManager.on('restarted', restartedListener);
+
+      currentMockProcess.triggerExit(1);
+      expect(crashedListener).toHaveBeenCalledWith(1, undefined, 1);
+      expect(crashingManager.getState()).toBe(ProcessState.CRASHED);
+
+      await vi.advanceTimersByTimeAsync(99);
+      expect(mockSpawn).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockSpawn).toHaveBeenCalledTimes(2);
+      expect(restartedListener).toHaveBeenCalledTimes(1);
+      expect(crashingManager.getState()).toBe(ProcessState.RUNNING);
+
+      // A successful spawn does not reset the crash backoff
+      currentMockProcess.triggerExit(1);
+      expect(crashingManager.getCrashCount()).toBe(2);
+      await vi.advanceTimersByTimeAsync(199);
+      expect(mockSpawn).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockSpawn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up once the restart limit is exceeded', async () => {
+      const failedListener = vi.fn();
+      crashingManager.on('restart-failed', failedListener);
+
+      currentMockProcess.triggerExit(1);
+      await vi.advanceTimersByTimeAsync(100);
+      currentMockProcess.triggerExit(1);
+      await vi.advanceTimersByTimeAsync(200);
+      currentMockProcess.triggerExit(1);
+
+      expect(failedListener).toHaveBeenCalledTimes(1);
+      expect(failedListener.mock.calls[0][0].code).toBe(ProxyErrorCode.RESTART_LIMIT_EXCEEDED);
+      expect(crashingManager.getState()).toBe(ProcessState.STOPPED);
+      expect(mockSpawn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reset the crash backoff when marked healthy', async () => {
+      currentMockProcess.triggerExit(1);
+      await vi.advanceTimersByTimeAsync(100);
+      crashingManager.markHealthy();
+      expect(crashingManager.getCrashCount()).toBe(0);
+
+      currentMockProcess.triggerExit(1);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(mockSpawn).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not restart when auto-restart is disabled', async () => {
+      const spawnPromise = processManager.spawn();
+      await vi.advanceTimersByTimeAsync(0);
+      await spawnPromise;
+      mockSpawn.mockClear();
+
+      currentMockProcess.triggerExit(1);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockSpawn).not.toHaveBeenCalled();
+      expect(processManager.getState()).toBe(ProcessState.STOPPED);
+    });
+  });
+
   describe('isHealthy', () => {
     it('should return false when not running', async () => {
       const healthy = await processManager.isHealthy();
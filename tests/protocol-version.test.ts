@@ -0,0 +1,80 @@
+/**
+ * Tests for protocol version tracking and capability translation between spec revisions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import {
+  capabilitiesForVersion,
+  connectClient,
+  connectServer,
+  getProtocolVersion,
+  translateServerCapabilities
+} from '../src/protocol-version.js';
+
+describe('connectClient / connectServer', () => {
+  it('should record the version negotiated on both ends', async () => {
+    const server = new Server({ name: 'server', version: '1.0.0' }, { capabilities: {} });
+    const client = new Client({ name: 'client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+    await connectServer(server, serverTransport);
+    await connectClient(client, clientTransport);
+
+    expect(getProtocolVersion(client)).toBe(LATEST_PROTOCOL_VERSION);
+    expect(getProtocolVersion(server)).toBe(LATEST_PROTOCOL_VERSION);
+    await client.close();
+  });
+
+  it('should record the older version a client asked for and answer with its capabilities', async () => {
+    const server = new Server({ name: 'server', version: '1.0.0' }, { capabilities: { tools: {}, completions: {} } });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await connectServer(server, serverTransport);
+    await clientTransport.start();
+
+    const response = new Promise(resolve => { clientTransport.onmessage = resolve; });
+    await clientTransport.send({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'old', version: '1' } }
+    });
+
+    expect(await response).toMatchObject({ result: { protocolVersion: '2024-11-05', capabilities: { tools: {} } } });
+    expect((await response as any).result.capabilities).not.toHaveProperty('completions');
+    expect(getProtocolVersion(server)).toBe('2024-11-05');
+    await server.close();
+  });
+
+  it('should record nothing for connections made without them', () => {
+    expect(getProtocolVersion(new Client({ name: 'client', version: '1.0.0' }))).toBeUndefined();
+  });
+});
+
+describe('translateServerCapabilities', () => {
+  it('should rename the draft completion key', () => {
+    expect(translateServerCapabilities({ tools: {}, completion: { argument: true } }))
+      .toEqual({ tools: {}, completions: {} });
+  });
+
+  it('should not advertise completions for servers that declared no completion capability', () => {
+    expect(translateServerCapabilities({ tools: {} })).toEqual({ tools: {} });
+  });
+
+  it('should leave current capabilities alone', () => {
+    expect(translateServerCapabilities({ completions: { x: 1 } })).toEqual({ completions: { x: 1 } });
+  });
+});
+
+describe('capabilitiesForVersion', () => {
+  it('should leave out completions for clients that predate the capability', () => {
+    expect(capabilitiesForVersion({ tools: {}, completions: {} }, '2024-11-05')).toEqual({ tools: {} });
+  });
+
+  it('should keep every capability for current clients', () => {
+    expect(capabilitiesForVersion({ tools: {}, completions: {} }, '2025-03-26')).toEqual({ tools: {}, completions: {} });
+  });
+});
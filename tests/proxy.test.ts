@@ -1,12 +1,35 @@
 /**
- * Unit tests for MCPProxy configuration and basic setup
- * These tests focus on constructor behavior and configuration validation
- * without testing MCP protocol integration (covered in integration tests)
+ * Unit tests for MCPProxy
+ * Configuration and setup are checked on a bare instance; behaviour is driven through
+ * the proxy's public surface, with a real MCP client talking to scripted child servers
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  CreateMessageRequestSchema,
+  ErrorCode,
+  ToolListChangedNotificationSchema,
+  CallToolResultSchema,
+  type CreateMessageRequest
+} from '@modelcontextprotocol/sdk/types.js';
 import { ProxyConfig } from '../src/types';
 import { MCPProxy } from '../src/mcp-proxy';
+import { logger } from '../src/mcp-logger.js';
+import { PROXY_SPECIFIC_ERROR_CODES } from '../src/errors.js';
+import {
+  ScriptedChild,
+  SCRIPTED_CHILD_SERVER,
+  cleanupProxyHarness,
+  freePort,
+  isRunning,
+  startHttpChild,
+  startHttpProxy,
+  startProxy,
+  type ProxyClient
+} from './utils/ProxyHarness.js';
 
 // Mock only the logger to avoid noise in tests
 vi.mock('../src/mcp-logger.js', () => ({
@@ -19,23 +42,30 @@ vi.mock('../src/mcp-logger.js', () => ({
   }
 }));
 
-// Mock child process spawning to avoid actual process creation
-vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
-  StdioClientTransport: vi.fn().mockImplementation(() => ({
-    close: vi.fn().mockResolvedValue(undefined)
-  }))
-}));
+const tool = (name: string, properties: Record<string, unknown> = {}) =>
+  ({ name, inputSchema: { type: 'object' as const, properties } });
 
-// Mock the Server class but keep it minimal
-vi.mock('@modelcontextprotocol/sdk/server/index.js', () => ({
-  Server: vi.fn().mockImplementation(() => ({
-    setRequestHandler: vi.fn(),
-    notification: vi.fn(),
-    connect: vi.fn().mockResolvedValue(undefined),
-    close: vi.fn().mockResolvedValue(undefined),
-    onerror: null
-  }))
-}));
+const methods = (client: ProxyClient) => client.notifications.map(notification => notification.method);
+
+/** Data of the notifications/message notifications a client received */
+const messages = (client: ProxyClient) => client.notifications
+  .filter(notification => notification.method === 'notifications/message')
+  .map(notification => notification.params?.['data']);
+
+/** Have the child send notifications, followed by a marker message; resolves once the marker arrived */
+async function childNotifies(client: ProxyClient, notifications: unknown[], marker = 'marker'): Promise<void> {
+  await client.call('notify', {
+    notifications: [...notifications, { method: 'notifications/message', params: { level: 'info', data: marker } }]
+  });
+  await vi.waitFor(() => expect(messages(client)).toContain(marker));
+}
+
+/** The uris of the resources/updated notifications a client received */
+const updatedUris = (client: ProxyClient) => client.notifications
+  .filter(notification => notification.method === 'notifications/resources/updated')
+  .map(notification => notification.params?.['uri']);
+
+const updated = (uri: string) => ({ method: 'notifications/resources/updated', params: { uri } });
 
 describe('MCPProxy', () => {
   const defaultConfig: ProxyConfig = {
@@ -50,11 +80,8 @@ describe('MCPProxy', () => {
     restartDelay: 1000
   };
 
-  beforeEach(() => {
-    vi.clearAllMocks();
-  });
-
-  afterEach(() => {
+  afterEach(async () => {
+    await cleanupProxyHarness();
     vi.clearAllMocks();
   });
 
@@ -200,14 +227,17 @@ describe('MCPProxy', () => {
   });
 
   describe('error handling setup', () => {
-    it('should set up process signal handlers during construction', () => {
-      const processSpy = vi.spyOn(process, 'on');
-      
-      new MCPProxy(defaultConfig);
-      
-      // Should set up signal handlers
-      expect(processSpy).toHaveBeenCalledWith('SIGINT', expect.any(Function));
-      expect(processSpy).toHaveBeenCalledWith('SIGTERM', expect.any(Function));
+    it('should set up process signal handlers during construction', async () => {
+      const listeners = { SIGINT: process.listenerCount('SIGINT'), SIGTERM: process.listenerCount('SIGTERM') };
+      const proxies = Array.from({ length: 12 }, () => new MCPProxy(defaultConfig));
+
+      // One pair of listeners, however many proxies there are
+      expect(process.listenerCount('SIGINT')).toBeGreaterThanOrEqual(1);
+      expect(process.listenerCount('SIGINT')).toBeLessThanOrEqual(listeners.SIGINT + 1);
+      expect(process.listenerCount('SIGTERM')).toBeLessThanOrEqual(listeners.SIGTERM + 1);
+
+      await Promise.all(proxies.map(proxy => proxy.stop()));
+      expect(process.listenerCount('SIGINT')).toBeLessThanOrEqual(listeners.SIGINT);
     });
   });
 
@@ -253,4 +283,1012 @@ describe('MCPProxy', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('blue/green restart', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild({ tools: [tool('old_tool')] });
+    });
+
+    it('should retire the old child only after the new one is ready', async () => {
+      const session = await startProxy(child.config());
+      const [first] = child.starts();
+
+      child.script({ tools: [tool('new_tool')] });
+      const result = await session.restart();
+
+      expect(result.isError).toBe(false);
+      const [, second] = child.starts();
+      await vi.waitFor(() => expect(isRunning(first!.pid)).toBe(false));
+      expect(isRunning(second!.pid)).toBe(true);
+      expect(child.indexOf(entry => entry.pid === second!.pid && entry.message?.method === 'tools/list'))
+        .toBeLessThan(child.indexOf(entry => entry.pid === first!.pid && entry.type === 'exit'));
+      expect((await session.client.listTools()).tools.map(t => t.name)).toEqual(['new_tool', 'restart_server']);
+      expect(await session.call('whoami')).toBe(String(second!.pid));
+    });
+
+    it('should refuse a second restart while one is running', async () => {
+      const session = await startProxy(child.config());
+
+      const [first, second] = await Promise.all([session.restart(), session.restart({ force: true })]);
+
+      expect(first.isError).toBe(false);
+      expect(second.isError).toBe(true);
+      expect(second.text).toContain('A restart is already in progress');
+      expect(child.starts()).toHaveLength(2);
+    });
+
+    it('should keep the old child when the new one fails listTools', async () => {
+      const session = await startProxy(child.config());
+      const [first] = child.starts();
+
+      child.script({ failures: { 'tools/list': 'error' } });
+      const result = await session.restart();
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('previous child server is still running');
+      const [, second] = child.starts();
+      await vi.waitFor(() => expect(isRunning(second!.pid)).toBe(false));
+      expect(await session.call('whoami')).toBe(String(first!.pid));
+    });
+
+    it('should roll back when the new child does not initialize in time', async () => {
+      const session = await startProxy(child.config({ operationTimeout: 3000 }));
+      const [first] = child.starts();
+
+      child.script({ failures: { 'tools/list': 'hang' } });
+      const result = await session.restart();
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('did not initialize within 3000ms');
+      expect(await session.call('whoami')).toBe(String(first!.pid));
+    });
+
+    it('should mirror prompts the new child cannot list as an empty list', async () => {
+      child.script({ prompts: [{ name: 'greet' }] });
+      const session = await startProxy(child.config());
+
+      child.script({ failures: { 'prompts/list': 'method-not-found' } });
+      const result = await session.restart();
+
+      expect(result.isError).toBe(false);
+      expect(result.text).toContain('Prompts: 1 removed\n  - greet');
+    });
+  });
+
+  describe('file watching', () => {
+    let root: string;
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      root = mkdtempSync(join(tmpdir(), 'reloaderoo-proxy-watch-'));
+      child = new ScriptedChild();
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should restart the child once for a burst of matching file changes', async () => {
+      await startProxy(child.config({ workingDirectory: root, watchPatterns: ['*.js'], watchDebounce: 100 }));
+
+      writeFileSync(join(root, 'server.js'), '1');
+      writeFileSync(join(root, 'tools.js'), '1');
+      writeFileSync(join(root, 'notes.md'), '1');
+      writeFileSync(join(root, 'server.js'), '2');
+
+      await vi.waitFor(() => expect(child.starts()).toHaveLength(2), { timeout: 3000 });
+      await new Promise(resolve => setTimeout(resolve, 300));
+      expect(child.starts()).toHaveLength(2);
+      expect(isRunning(child.starts()[0]!.pid)).toBe(false);
+    });
+
+    it('should watch the new working directory after restart_server moves the child', async () => {
+      const moved = join(root, 'moved');
+      mkdirSync(moved);
+      const session = await startProxy(child.config({ workingDirectory: root, watchPatterns: ['*.js'], watchDebounce: 50 }));
+
+      await session.restart({ config: { workingDirectory: 'moved' } });
+      expect(child.starts()).toHaveLength(2);
+
+      writeFileSync(join(root, 'server.js'), '1');
+      await new Promise(resolve => setTimeout(resolve, 300));
+      expect(child.starts()).toHaveLength(2);
+
+      writeFileSync(join(moved, 'server.js'), '1');
+      await vi.waitFor(() => expect(child.starts()).toHaveLength(3), { timeout: 3000 });
+    });
+
+    it('should build before restarting for a file change', async () => {
+      await startProxy(child.config({
+        workingDirectory: root,
+        watchPatterns: ['src/**/*.ts'],
+        watchDebounce: 50,
+        buildCommand: `node -e "require('fs').writeFileSync('built.txt', 'ok')"`
+      }));
+
+      mkdirSync(join(root, 'src'));
+      writeFileSync(join(root, 'src', 'server.ts'), 'export {}');
+
+      await vi.waitFor(() => expect(child.starts()).toHaveLength(2), { timeout: 5000 });
+      expect(readFileSync(join(root, 'built.txt'), 'utf8')).toBe('ok');
+    });
+  });
+
+  describe('build before restart', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild();
+    });
+
+    it('should return the build output and keep the old child serving when the build fails', async () => {
+      const session = await startProxy(child.config({
+        buildCommand: `node -e "console.error('src/server.ts(3,1): error TS1005'); process.exit(2)"`
+      }));
+
+      const result = await session.restart();
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Build command failed with exit code 2');
+      expect(result.text).toContain('still running the previous build');
+      expect(result.text).toContain('src/server.ts(3,1): error TS1005');
+      expect(child.starts()).toHaveLength(1);
+      expect(await session.call('whoami')).toBe(String(child.starts()[0]!.pid));
+    });
+
+    it('should kill a build that exceeds the build timeout rather than the restart timeout', async () => {
+      const session = await startProxy(child.config({
+        operationTimeout: 30000,
+        buildTimeout: 1000,
+        buildCommand: `node -e "setTimeout(() => {}, 10000)"`
+      }));
+
+      const result = await session.restart();
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Build command timed out after 1000ms');
+      expect(child.starts()).toHaveLength(1);
+    });
+
+    it('should restart without building when asked to skip the build', async () => {
+      const session = await startProxy(child.config({ buildCommand: `node -e "process.exit(2)"` }));
+
+      const result = await session.restart({ skipBuild: true });
+
+      expect(result.isError).toBe(false);
+      expect(child.starts()).toHaveLength(2);
+    });
+
+    it('should still build when forced', async () => {
+      const session = await startProxy(child.config({ buildCommand: `node -e "process.exit(2)"` }));
+
+      const result = await session.restart({ force: true });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Build command failed');
+      expect(child.starts()).toHaveLength(1);
+    });
+
+    it('should kill a running build when the proxy stops', async () => {
+      const { proxy, restart } = await startProxy(child.config({
+        buildCommand: `node -e "require('fs').writeFileSync('started.txt', ''); ` +
+          `setTimeout(() => require('fs').writeFileSync('finished.txt', ''), 1000)"`
+      }));
+
+      const restarting = restart().catch(() => undefined);
+      await vi.waitFor(() => expect(existsSync(join(child.dir, 'started.txt'))).toBe(true));
+      await proxy.stop();
+      await restarting;
+
+      await new Promise(resolve => setTimeout(resolve, 1500));
+      expect(existsSync(join(child.dir, 'finished.txt'))).toBe(false);
+    });
+  });
+
+  describe('capability changes', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild();
+    });
+
+    it('should report added, removed and changed tools with a schema diff', async () => {
+      child.script({ tools: [tool('echo', { text: { type: 'string' } }), tool('old_tool')] });
+      const session = await startProxy(child.config());
+
+      child.script({ tools: [tool('echo', { text: { type: 'number' } }), tool('new_tool')] });
+      const result = await session.restart();
+
+      expect(result.text).toBe([
+        'Child MCP server restarted successfully.',
+        '',
+        'Tools: 1 added, 1 removed, 1 changed',
+        '  + new_tool',
+        '  - old_tool',
+        '  ~ echo',
+        '      ~ /inputSchema/properties/text/type: "string" -> "number"'
+      ].join('\n'));
+    });
+
+    it('should only notify clients about the lists that changed', async () => {
+      const session = await startProxy(child.config());
+
+      child.script({ prompts: [{ name: 'summarize' }] });
+      const result = await session.restart();
+
+      expect(result.text).toContain('Prompts: 1 added\n  + summarize');
+      expect(methods(session)).toEqual(['notifications/prompts/list_changed']);
+    });
+
+    it('should not notify clients when nothing changed', async () => {
+      child.script({ tools: [tool('echo')] });
+      const session = await startProxy(child.config());
+
+      const result = await session.restart();
+
+      expect(result.text).toContain('No tools, prompts or resources changed.');
+      expect(session.notifications).toEqual([]);
+    });
+
+    it('should compare with tools the child reported since the last restart', async () => {
+      const session = await startProxy(child.config());
+
+      child.script({ tools: [tool('added_at_runtime')] });
+      await session.call('notify', { notifications: [{ method: 'notifications/tools/list_changed' }] });
+      await vi.waitFor(() => expect(methods(session)).toContain('notifications/tools/list_changed'));
+      const result = await session.restart();
+
+      expect(result.text).toContain('No tools, prompts or resources changed.');
+    });
+
+    it('should compare with prompts and resources the child reported since the last restart', async () => {
+      const session = await startProxy(child.config());
+
+      child.script({ prompts: [{ name: 'greet' }], resources: [{ uri: 'file:///new.txt', name: 'new' }] });
+      await session.call('notify', {
+        notifications: [
+          { method: 'notifications/prompts/list_changed' },
+          { method: 'notifications/resources/list_changed' }
+        ]
+      });
+      await vi.waitFor(() => expect(methods(session)).toEqual([
+        'notifications/prompts/list_changed',
+        'notifications/resources/list_changed'
+      ]));
+      const result = await session.restart();
+
+      expect(result.text).toContain('No tools, prompts or resources changed.');
+    });
+  });
+
+  describe('initialize result mirroring', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild();
+    });
+
+    it('should present the child server info, capabilities and instructions', async () => {
+      child.script({ serverInfo: { name: 'child-server', version: '2.1.0' }, instructions: 'Use the search tool first.' });
+      const { client } = await startProxy(child.config());
+
+      expect(client.getServerVersion()).toEqual({ name: 'child-server-dev', version: '2.1.0-dev' });
+      expect(client.getServerCapabilities()).toEqual({
+        tools: { listChanged: true },
+        prompts: { listChanged: true },
+        resources: { subscribe: true, listChanged: true },
+        completions: {},
+        logging: {}
+      });
+      expect(client.getInstructions()).toMatch(/^Use the search tool first\./);
+      expect(client.getInstructions()).toContain('restart_server');
+    });
+
+    it('should only handle requests for capabilities the child has', async () => {
+      child.script({ capabilities: { tools: {} } });
+      const { client } = await startProxy(child.config());
+
+      expect(client.getServerCapabilities()).toEqual({ tools: { listChanged: true } });
+      await expect(client.listPrompts()).rejects.toMatchObject({ code: ErrorCode.MethodNotFound });
+      await expect(client.ping()).resolves.toEqual({});
+    });
+
+    it('should translate capabilities of a child on an older spec revision', async () => {
+      child.script({ protocolVersion: '2024-11-05', capabilities: { tools: {}, completion: {} } });
+      const { client } = await startProxy(child.config());
+
+      expect(client.getServerCapabilities()).toHaveProperty('completions', {});
+      expect(client.getServerCapabilities()).not.toHaveProperty('completion');
+      await client.complete({ ref: { type: 'ref/prompt', name: 'greet' }, argument: { name: 'name', value: '' } });
+      expect(child.received('completion/complete')).toHaveLength(1);
+    });
+
+    it('should not offer completions for an older child that declared no completion capability', async () => {
+      child.script({ protocolVersion: '2024-11-05', capabilities: { tools: {} } });
+      const { client } = await startProxy(child.config());
+
+      expect(client.getServerCapabilities()).not.toHaveProperty('completions');
+      await expect(client.complete({ ref: { type: 'ref/prompt', name: 'greet' }, argument: { name: 'name', value: '' } }))
+        .rejects.toThrow();
+      expect(child.received('completion/complete')).toHaveLength(0);
+    });
+
+    it('should give new sessions the capabilities of the restarted child', async () => {
+      child.script({ capabilities: { tools: {} } });
+      const { connect } = await startHttpProxy(child.config());
+      const first = await connect();
+
+      child.script({ capabilities: { tools: {}, prompts: {} } });
+      await first.restart();
+      const second = await connect();
+
+      expect(second.client.getServerCapabilities()).toHaveProperty('prompts', { listChanged: true });
+      await expect(second.client.listPrompts()).resolves.toEqual({ prompts: [] });
+    });
+
+    it('should make HTTP sessions re-initialize only when the capabilities changed', async () => {
+      const { connect } = await startHttpProxy(child.config());
+      const session = await connect();
+
+      await session.restart();
+      await expect(session.client.ping()).resolves.toEqual({});
+
+      child.script({ capabilities: { tools: {} } });
+      await session.restart();
+      await expect(session.client.ping()).rejects.toThrow();
+    });
+  });
+
+  describe('restart with configuration updates', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild();
+    });
+
+    it('should advertise the configuration the tool accepts', async () => {
+      const { client } = await startProxy(child.config());
+
+      const { tools } = await client.listTools();
+      const restartTool = tools.find(t => t.name === 'restart_server');
+
+      expect(Object.keys((restartTool?.inputSchema.properties?.['config'] as { properties: object }).properties))
+        .toEqual(['childCommand', 'environment', 'childArgs', 'workingDirectory']);
+    });
+
+    it('should start the new child with the updated configuration and report it', async () => {
+      const work = join(child.dir, 'work');
+      mkdirSync(work);
+      const session = await startProxy(child.config({ environment: { TEST_EXISTING: 'yes' } }));
+
+      const result = await session.restart({
+        config: { childArgs: [SCRIPTED_CHILD_SERVER, '--verbose'], environment: { TEST_DEBUG: '1' }, workingDirectory: 'work' }
+      });
+
+      expect(result.isError).toBe(false);
+      expect(child.starts()[1]).toMatchObject({
+        argv: ['--verbose'],
+        env: { TEST_EXISTING: 'yes', TEST_DEBUG: '1' },
+        cwd: work
+      });
+      expect(result.text).toContain('Applied configuration:');
+      expect(JSON.parse(result.text.split('Applied configuration:\n')[1]!)).toEqual({
+        childCommand: process.execPath,
+        childArgs: [SCRIPTED_CHILD_SERVER, '--verbose'],
+        workingDirectory: work,
+        environment: { TEST_DEBUG: '1' }
+      });
+    });
+
+    it('should keep using the updated configuration for later restarts', async () => {
+      const session = await startProxy(child.config());
+
+      await session.restart({ config: { childArgs: [SCRIPTED_CHILD_SERVER, 'other'] } });
+      await session.restart();
+
+      expect(child.starts()[2]!.argv).toEqual(['other']);
+    });
+
+    it.each([
+      { update: { workingDirectory: '/does/not/exist' }, error: 'Working directory does not exist: /does/not/exist' },
+      { update: { childCommand: 'definitely-not-a-command' }, error: 'Child command not found: definitely-not-a-command' },
+      { update: { childArgs: 'server.js' }, error: 'childArgs must be an array of strings' },
+      { update: { buildCommand: 'make' }, error: 'Unsupported config keys: buildCommand' }
+    ])('should reject $update without restarting', async ({ update, error }) => {
+      const session = await startProxy(child.config());
+
+      const result = await session.restart({ config: update });
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain(error);
+      expect(result.text).toContain('The child server was not restarted');
+      expect(child.starts()).toHaveLength(1);
+    });
+
+    it('should roll back the configuration when the new child fails', async () => {
+      const session = await startProxy(child.config());
+
+      child.script({ failures: { 'tools/list': 'error' } });
+      const result = await session.restart({ config: { childArgs: [SCRIPTED_CHILD_SERVER, 'broken'] } });
+      expect(result.isError).toBe(true);
+      expect(await session.call('whoami')).toBe(String(child.starts()[0]!.pid));
+
+      child.script({ failures: {} });
+      await session.restart();
+      expect(child.starts()[2]!.argv).toEqual([]);
+    });
+  });
+
+  describe('pagination', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild();
+    });
+
+    it('should mirror every page of the child tools', async () => {
+      child.script({
+        pages: {
+          'tools/list': {
+            '': { tools: [tool('a'), tool('b')], nextCursor: 'page2' },
+            page2: { tools: [tool('c')], nextCursor: 'page3' },
+            page3: { tools: [tool('d')] }
+          }
+        }
+      });
+      const { client } = await startProxy(child.config());
+
+      const listed = await client.listTools();
+
+      expect(listed.tools.map(t => t.name)).toEqual(['a', 'b', 'c', 'd', 'restart_server']);
+      expect(listed.nextCursor).toBeUndefined();
+      expect(child.received('tools/list').map(entry => entry.message?.params?.['cursor'])).toEqual([undefined, 'page2', 'page3']);
+    });
+
+    it('should stop paging when the child repeats a cursor', async () => {
+      const page = { tools: [tool('loop')], nextCursor: 'same' };
+      child.script({ pages: { 'tools/list': { '': page, same: page } } });
+      const { client } = await startProxy(child.config());
+
+      expect(child.received('tools/list')).toHaveLength(2);
+      expect((await client.listTools()).tools.map(t => t.name)).toEqual(['loop', 'loop', 'restart_server']);
+    });
+
+    it.each([
+      { method: 'resources/list', key: 'resources', list: 'listResources' },
+      { method: 'resources/templates/list', key: 'resourceTemplates', list: 'listResourceTemplates' },
+      { method: 'prompts/list', key: 'prompts', list: 'listPrompts' }
+    ] as const)('should pass cursors through for $method', async ({ method, key, list }) => {
+      const { client } = await startProxy(child.config());
+      child.script({ pages: { [method]: { 'this-page': { [key]: [], nextCursor: 'next-page' } } } });
+
+      const result = await client[list]({ cursor: 'this-page' });
+
+      expect(result.nextCursor).toBe('next-page');
+      expect(child.received(method).at(-1)?.message?.params).toEqual({ cursor: 'this-page' });
+    });
+  });
+
+  describe('request queueing during restart', () => {
+    it('should park requests during a restart and replay them on the new child', async () => {
+      const child = new ScriptedChild();
+      const session = await startProxy(child.config());
+      const [first] = child.starts();
+
+      child.script({ delays: { 'tools/list': 500 } });
+      const restart = session.restart();
+      await vi.waitFor(() => expect(child.starts()).toHaveLength(2));
+
+      const ping = session.client.ping();
+      await restart;
+      await ping;
+
+      const [, second] = child.starts();
+      expect(child.received('ping', first!.pid)).toHaveLength(0);
+      expect(child.received('ping', second!.pid)).toHaveLength(1);
+    });
+
+    it('should keep requests parked while a build outlasts the operation timeout', async () => {
+      const child = new ScriptedChild();
+      const session = await startProxy(child.config({
+        operationTimeout: 2000,
+        buildCommand: `node -e "require('fs').writeFileSync('started.txt', ''); setTimeout(() => {}, 3000)"`
+      }));
+
+      const restart = session.restart();
+      await vi.waitFor(() => expect(existsSync(join(child.dir, 'started.txt'))).toBe(true));
+      const call = session.call('whoami');
+
+      expect((await restart).isError).toBe(false);
+      const [, second] = child.starts();
+      expect(await call).toBe(String(second!.pid));
+    });
+  });
+
+  describe('cancellation and progress', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild();
+    });
+
+    it('should cancel tool calls in flight on the old child when it is restarted', async () => {
+      const session = await startProxy(child.config());
+      const [first] = child.starts();
+
+      const cancelled = expect(session.call('slow')).rejects.toThrow('Child server restarted before the request completed');
+      await vi.waitFor(() => expect(child.received('tools/call')).toHaveLength(1));
+      await session.restart();
+
+      await cancelled;
+      await vi.waitFor(() => expect(child.indexOf(entry => entry.pid === first!.pid && entry.type === 'exit')).not.toBe(-1));
+      expect(child.indexOf(entry => entry.pid === first!.pid && entry.message?.method === 'notifications/cancelled'))
+        .toBeLessThan(child.indexOf(entry => entry.pid === first!.pid && entry.type === 'exit'));
+    });
+
+    it('should pass the caller\'s cancellation and progress token to the child request', async () => {
+      const { client } = await startProxy(child.config());
+      const controller = new AbortController();
+      const onprogress = vi.fn();
+
+      const call = client.request(
+        { method: 'tools/call', params: { name: 'slow' } },
+        CallToolResultSchema,
+        { signal: controller.signal, onprogress }
+      );
+      await vi.waitFor(() => expect(onprogress).toHaveBeenCalledWith({ progress: 3, total: 10 }));
+      expect(child.received('tools/call')[0]!.message?.params?.['_meta']).toHaveProperty('progressToken');
+
+      controller.abort('cancelled by user');
+      await expect(call).rejects.toBe('cancelled by user');
+      await vi.waitFor(() => expect(child.received('notifications/cancelled')).toHaveLength(1));
+    });
+  });
+
+  describe('strict arguments', () => {
+    const addTool = {
+      name: 'add',
+      inputSchema: {
+        type: 'object' as const,
+        properties: { a: { type: 'number' }, b: { type: 'number' } },
+        required: ['a', 'b']
+      }
+    };
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild({ tools: [addTool] });
+    });
+
+    it('should reject arguments that violate the inputSchema without forwarding them', async () => {
+      const session = await startProxy(child.config({ strictArguments: true }));
+
+      const error = await session.call('add', { a: 'one' }).catch((error: unknown) => error);
+
+      expect(error).toMatchObject({ code: ErrorCode.InvalidParams });
+      expect(String(error)).toContain(
+        "Invalid arguments for tool add:\n/a: should be number\n/b: should have required property 'b'"
+      );
+      expect(child.received('tools/call')).toHaveLength(0);
+
+      await session.call('add', { a: 1, b: 2 });
+      expect(child.received('tools/call')).toHaveLength(1);
+    });
+
+    it('should forward invalid arguments when not strict', async () => {
+      const session = await startProxy(child.config());
+
+      await session.call('add', { a: 'one' });
+
+      expect(child.received('tools/call')).toHaveLength(1);
+    });
+  });
+
+  describe('output schema validation', () => {
+    const countTool = {
+      name: 'count',
+      inputSchema: { type: 'object' as const },
+      outputSchema: { type: 'object' as const, properties: { count: { type: 'integer' } }, required: ['count'] }
+    };
+    const invalidResult = { content: [], structuredContent: { count: 'many' } };
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild({ tools: [countTool] });
+    });
+
+    it('should log results that violate the outputSchema and pass them through', async () => {
+      child.script({ toolResults: { count: invalidResult } });
+      const { client } = await startProxy(child.config());
+
+      await expect(client.request({ method: 'tools/call', params: { name: 'count' } }, CallToolResultSchema))
+        .resolves.toEqual(invalidResult);
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Tool count returned a result that violates its outputSchema',
+        { errors: [{ path: '/count', message: 'should be integer' }] },
+        'PROXY-TOOL'
+      );
+    });
+
+    it('should fail the call with strictOutput', async () => {
+      const session = await startProxy(child.config({ strictOutput: true }));
+
+      const error = await session.call('count').catch((error: unknown) => error);
+
+      expect(error).toMatchObject({ code: ErrorCode.InternalError });
+      expect(String(error)).toContain(
+        'Tool count returned a result that violates its outputSchema:\n/: structuredContent is missing but the tool declares an outputSchema'
+      );
+    });
+  });
+
+  describe('crash recovery', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild();
+    });
+
+    /** Crash the current child and wait until the proxy has seen it exit */
+    async function crash(session: ProxyClient): Promise<void> {
+      const pid = Number(await session.call('whoami'));
+      await session.call('crash').catch(() => undefined);
+      await vi.waitFor(() => expect(isRunning(pid)).toBe(false));
+    }
+
+    it('should queue requests while the child crashes and reconnect after the auto-restart', async () => {
+      const session = await startProxy(child.config());
+
+      child.script({ tools: [tool('recovered_tool')] });
+      await crash(session);
+      await session.client.ping();
+
+      const [, second] = child.starts();
+      expect(child.received('ping', second!.pid)).toHaveLength(1);
+      expect((await session.client.listTools()).tools.map(t => t.name)).toEqual(['recovered_tool', 'restart_server']);
+      expect(methods(session)).toContain('notifications/tools/list_changed');
+    });
+
+    it('should fail queued requests once the restart limit is exceeded', async () => {
+      const session = await startProxy(child.config({ restartLimit: 1, restartDelay: 300 }));
+
+      await crash(session);
+      child.script({ exitOnStart: true });
+
+      await expect(session.client.ping()).rejects.toMatchObject({ code: PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE });
+      expect(child.starts()).toHaveLength(2);
+    });
+
+    it('should not queue requests when auto-restart is disabled', async () => {
+      const session = await startProxy(child.config({ autoRestart: false }));
+
+      await crash(session);
+
+      await expect(session.client.ping()).rejects.toMatchObject({ code: PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE });
+      expect(child.starts()).toHaveLength(1);
+    });
+
+    it('should ignore exits of retired children', async () => {
+      const session = await startProxy(child.config());
+      const [first] = child.starts();
+
+      await session.restart();
+      await vi.waitFor(() => expect(isRunning(first!.pid)).toBe(false));
+
+      expect(await session.call('whoami')).toBe(String(child.starts()[1]!.pid));
+    });
+  });
+
+  describe('child notification forwarding', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild();
+    });
+
+    it('should relay child notifications to the upstream client', async () => {
+      const session = await startProxy(child.config());
+
+      await childNotifies(session, [{ method: 'notifications/message', params: { level: 'info', data: 'hello' } }]);
+
+      expect(messages(session)).toEqual(['hello', 'marker']);
+    });
+
+    it('should refresh mirrored tools before relaying a tools list change', async () => {
+      const { client, call } = await startProxy(child.config());
+      const listedOnChange: string[][] = [];
+      client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+        listedOnChange.push((await client.listTools()).tools.map(t => t.name));
+      });
+
+      child.script({ tools: [tool('added_tool')] });
+      await call('notify', { notifications: [{ method: 'notifications/tools/list_changed' }] });
+
+      await vi.waitFor(() => expect(listedOnChange).toEqual([['added_tool', 'restart_server']]));
+    });
+  });
+
+  describe('resource subscriptions', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild();
+    });
+
+    it('should subscribe the child once per URI and unsubscribe when the last session leaves', async () => {
+      const { connect } = await startHttpProxy(child.config());
+      const first = await connect();
+      const second = await connect();
+
+      await first.client.subscribeResource({ uri: 'file:///a.txt' });
+      await second.client.subscribeResource({ uri: 'file:///a.txt' });
+      expect(child.received('resources/subscribe')).toHaveLength(1);
+
+      await first.client.unsubscribeResource({ uri: 'file:///a.txt' });
+      expect(child.received('resources/unsubscribe')).toHaveLength(0);
+
+      await second.client.unsubscribeResource({ uri: 'file:///a.txt' });
+      expect(child.received('resources/unsubscribe').map(entry => entry.message?.params)).toEqual([{ uri: 'file:///a.txt' }]);
+    });
+
+    it('should not register a subscription the child rejected', async () => {
+      const session = await startProxy(child.config());
+
+      child.script({ failures: { 'resources/subscribe': 'error' } });
+      await expect(session.client.subscribeResource({ uri: 'file:///a.txt' })).rejects.toThrow('Scripted failure');
+
+      await childNotifies(session, [updated('file:///a.txt')]);
+      expect(updatedUris(session)).toEqual([]);
+    });
+
+    it('should hold subscribe requests to the forwarding timeout', async () => {
+      const session = await startProxy(child.config({ requestTimeout: 300 }));
+
+      child.script({ failures: { 'resources/subscribe': 'hang' } });
+      await expect(session.client.subscribeResource({ uri: 'file:///a.txt' })).rejects.toMatchObject({
+        code: PROXY_SPECIFIC_ERROR_CODES.CHILD_TIMEOUT
+      });
+
+      await vi.waitFor(() => expect(child.received('notifications/cancelled')).toHaveLength(1));
+    });
+
+    it('should park subscribe requests during a restart and send them to the new child', async () => {
+      const session = await startProxy(child.config());
+      const [first] = child.starts();
+
+      child.script({ delays: { 'tools/list': 500 } });
+      const restart = session.restart();
+      await vi.waitFor(() => expect(child.starts()).toHaveLength(2));
+
+      const subscribe = session.client.subscribeResource({ uri: 'file:///a.txt' });
+      await restart;
+      await subscribe;
+
+      const [, second] = child.starts();
+      expect(child.received('resources/subscribe', first!.pid)).toHaveLength(0);
+      expect(child.received('resources/subscribe', second!.pid)).toHaveLength(1);
+    });
+
+    it('should re-subscribe the new child before it replaces the old one', async () => {
+      const session = await startProxy(child.config());
+      const [first] = child.starts();
+      await session.client.subscribeResource({ uri: 'file:///a.txt' });
+      await session.client.subscribeResource({ uri: 'file:///b.txt' });
+
+      await session.restart();
+
+      const [, second] = child.starts();
+      expect(child.received('resources/subscribe', second!.pid).map(entry => entry.message?.params)).toEqual([
+        { uri: 'file:///a.txt' },
+        { uri: 'file:///b.txt' }
+      ]);
+      await vi.waitFor(() => expect(child.indexOf(entry => entry.pid === first!.pid && entry.type === 'exit')).not.toBe(-1));
+      expect(child.indexOf(entry => entry.pid === second!.pid && entry.message?.method === 'resources/subscribe'))
+        .toBeLessThan(child.indexOf(entry => entry.pid === first!.pid && entry.type === 'exit'));
+    });
+
+    it('should keep the old child when the new one drops the connection while re-subscribing', async () => {
+      const session = await startProxy(child.config());
+      const [first] = child.starts();
+      await session.client.subscribeResource({ uri: 'file:///a.txt' });
+
+      child.script({ failures: { 'resources/subscribe': 'exit' } });
+      const result = await session.restart();
+
+      expect(result.isError).toBe(true);
+      expect(await session.call('whoami')).toBe(String(first!.pid));
+      await childNotifies(session, [updated('file:///a.txt')]);
+      expect(updatedUris(session)).toEqual(['file:///a.txt']);
+    });
+
+    it('should re-subscribe after a crash recovery', async () => {
+      const session = await startProxy(child.config());
+      await session.client.subscribeResource({ uri: 'file:///a.txt' });
+
+      await session.call('crash').catch(() => undefined);
+
+      await vi.waitFor(() => expect(child.starts()).toHaveLength(2));
+      const [, second] = child.starts();
+      await vi.waitFor(() => expect(child.received('resources/subscribe', second!.pid)).toHaveLength(1));
+      expect(child.received('resources/subscribe', second!.pid)[0]!.message?.params).toEqual({ uri: 'file:///a.txt' });
+    });
+
+    it('should relay updates only to sessions subscribed to the resource', async () => {
+      const { connect } = await startHttpProxy(child.config());
+      const first = await connect();
+      const second = await connect();
+      await first.client.subscribeResource({ uri: 'file:///dir' });
+
+      await childNotifies(first, [updated('file:///dir'), updated('file:///dir/a.txt'), updated('file:///other.txt')]);
+      await vi.waitFor(() => expect(messages(second)).toContain('marker'));
+
+      expect(updatedUris(first)).toEqual(['file:///dir']);
+      expect(updatedUris(second)).toEqual([]);
+    });
+
+    it('should drop the subscriptions of a closed session', async () => {
+      const session = await startProxy(child.config());
+      await session.client.subscribeResource({ uri: 'file:///a.txt' });
+
+      await session.close();
+
+      await vi.waitFor(() => expect(child.received('resources/unsubscribe').map(entry => entry.message?.params))
+        .toEqual([{ uri: 'file:///a.txt' }]));
+    });
+  });
+
+  describe('server-to-client requests', () => {
+    let child: ScriptedChild;
+
+    beforeEach(() => {
+      child = new ScriptedChild();
+    });
+
+    /** Answer sampling requests with the given text */
+    function answerSampling(session: ProxyClient, text: string, requests: CreateMessageRequest[] = []): void {
+      session.client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+        requests.push(request);
+        return { role: 'assistant' as const, content: { type: 'text' as const, text }, model: 'm' };
+      });
+    }
+
+    it('should offer the child nothing when the client supports no sampling, roots or elicitation', async () => {
+      const session = await startProxy(child.config());
+
+      expect(child.received('initialize')[0]!.message?.params?.['capabilities']).toEqual({});
+      await expect(session.call('ask')).rejects.toThrow('Method not found');
+    });
+
+    it('should spawn the child once, offering what the stdio client supports', async () => {
+      const session = await startProxy(child.config(), { capabilities: { sampling: {}, roots: { listChanged: true } } });
+      await session.client.ping();
+      expect(child.starts()).toHaveLength(1);
+      expect(child.received('initialize')[0]!.message?.params?.['capabilities'])
+        .toEqual({ sampling: {}, roots: { listChanged: true } });
+
+      const result = await session.restart();
+
+      expect(result.isError).toBe(false);
+      expect(child.starts()).toHaveLength(2);
+      expect(child.received('initialize')).toHaveLength(2);
+    });
+
+    it('should answer the child\'s roots request sent before the stdio session is initialized', async () => {
+      child.script({ listRootsOnInitialized: true });
+      await startProxy(child.config(), { roots: [{ uri: 'file:///project', name: 'project' }] });
+
+      await vi.waitFor(() => expect(child.journal().find(entry => entry.type === 'roots')?.result)
+        .toEqual({ roots: [{ uri: 'file:///project', name: 'project' }] }));
+    });
+
+    it('should relay roots changes to a child that was offered them', async () => {
+      const session = await startProxy(child.config(), { capabilities: { roots: { listChanged: true } } });
+
+      await session.client.sendRootsListChanged();
+
+      await vi.waitFor(() => expect(child.received('notifications/roots/list_changed')).toHaveLength(1));
+    });
+
+    it('should offer the child what HTTP sessions support from its next restart', async () => {
+      const { connect } = await startHttpProxy(child.config());
+      const sampler = await connect({ name: 'sampler', capabilities: { sampling: {} } });
+      answerSampling(sampler, 'answered by sampler');
+      expect(child.received('initialize')[0]!.message?.params?.['capabilities']).toEqual({});
+
+      await sampler.restart();
+
+      expect(child.starts()).toHaveLength(2);
+      expect(child.received('initialize')[1]!.message?.params?.['capabilities']).toEqual({ sampling: {} });
+      expect(await sampler.call('ask')).toBe('answered by sampler');
+    });
+
+    it('should forward child requests to the latest session that supports them', async () => {
+      const { connect } = await startHttpProxy(child.config());
+      const earlier = await connect({ name: 'earlier', capabilities: { sampling: {} } });
+      answerSampling(earlier, 'answered by earlier');
+      const later = await connect({ name: 'later', capabilities: { sampling: {} } });
+      answerSampling(later, 'answered by later');
+      const other = await connect({ name: 'other', capabilities: { roots: {} } });
+      await other.restart();
+
+      expect(await other.call('ask')).toBe('answered by later');
+
+      await later.close();
+      expect(await other.call('ask')).toBe('answered by earlier');
+
+      await earlier.close();
+      await expect(other.call('ask')).rejects.toThrow('No connected client supports sampling');
+    });
+
+    it('should forward child sampling requests to the client', async () => {
+      const session = await startProxy(child.config(), { capabilities: { sampling: {} } });
+      const requests: CreateMessageRequest[] = [];
+      answerSampling(session, 'hi', requests);
+
+      expect(await session.call('ask')).toBe('hi');
+      expect(requests[0]!.params).toEqual({
+        messages: [{ role: 'user', content: { type: 'text', text: 'hello' } }],
+        maxTokens: 10
+      });
+    });
+  });
+
+  describe('remote child', () => {
+    const remoteConfig = (childUrl: string, overrides: Partial<ProxyConfig> = {}): ProxyConfig => ({
+      ...defaultConfig,
+      childCommand: '',
+      childUrl,
+      restartDelay: 0,
+      ...overrides
+    });
+
+    it('should connect to the child URL instead of spawning a process', async () => {
+      const httpChild = await startHttpChild();
+      const session = await startProxy(remoteConfig(httpChild.url));
+
+      expect(await session.call('whoami')).toBe('http-child');
+      expect(httpChild.initializations()).toBe(1);
+    });
+
+    it('should retry until the service accepts connections', async () => {
+      const port = await freePort();
+      const starting = startProxy(remoteConfig(`http://127.0.0.1:${port}/mcp`));
+      await new Promise(resolve => setTimeout(resolve, 300));
+      await startHttpChild(port);
+
+      const session = await starting;
+
+      expect(await session.call('whoami')).toBe('http-child');
+    });
+
+    it('should run the restart command and reconnect on restart_server', async () => {
+      const httpChild = await startHttpChild();
+      const session = await startProxy(remoteConfig(httpChild.url, { restartCommand: `node -e "process.exit(0)"` }));
+
+      const result = await session.restart();
+
+      expect(result.isError).toBe(false);
+      expect(result.text).toContain(`Reconnected to child MCP server at ${httpChild.url}`);
+      expect(httpChild.initializations()).toBe(2);
+      expect(await session.call('whoami')).toBe('http-child');
+    });
+
+    it('should keep the current connection when the restart command fails', async () => {
+      const httpChild = await startHttpChild();
+      const session = await startProxy(remoteConfig(httpChild.url, {
+        restartCommand: `node -e "console.error('compose down'); process.exit(3)"`
+      }));
+
+      const result = await session.restart();
+
+      expect(result.isError).toBe(true);
+      expect(result.text).toContain('Restart command failed with exit code 3');
+      expect(result.text).toContain('compose down');
+      expect(httpChild.initializations()).toBe(1);
+      expect(await session.call('whoami')).toBe('http-child');
+    });
+  });
+});
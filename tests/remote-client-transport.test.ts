@@ -0,0 +1,88 @@
+/**
+ * Tests for connectRemoteClient - connecting to child servers running as HTTP services
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportServer } from '../src/http-transport-server.js';
+import { connectRemoteClient, closeRemoteClient, isHttpUrl } from '../src/remote-client-transport.js';
+
+// Mock logger
+vi.mock('../src/mcp-logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+describe('connectRemoteClient', () => {
+  let httpServer: HttpTransportServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    httpServer = new HttpTransportServer({
+      port: 0,
+      host: '127.0.0.1',
+      createSession: () => {
+        const server = new Server({ name: 'remote', version: '1.0.0' }, { capabilities: { tools: {} } });
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({
+          tools: [{ name: 'remote_tool', inputSchema: { type: 'object' as const } }]
+        }));
+        return server;
+      }
+    });
+    await httpServer.start();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+  });
+
+  afterEach(async () => {
+    await client.close().catch(() => undefined);
+    await httpServer.close();
+  });
+
+  it('should connect over Streamable HTTP', async () => {
+    const transport = await connectRemoteClient(client, httpServer.getUrl());
+
+    expect(transport).toBe('streamable-http');
+    expect((await client.listTools()).tools[0]?.name).toBe('remote_tool');
+  });
+
+  it('should fall back to SSE when Streamable HTTP is rejected', async () => {
+    const transport = await connectRemoteClient(client, httpServer.getUrl('/sse'));
+
+    expect(transport).toBe('sse');
+    expect((await client.listTools()).tools[0]?.name).toBe('remote_tool');
+  });
+
+  it('should not fall back to SSE when the server is unreachable', async () => {
+    const url = httpServer.getUrl();
+    await httpServer.close();
+
+    await expect(connectRemoteClient(client, url)).rejects.toBeInstanceOf(TypeError);
+  });
+
+  it('should end the session on the server when closed', async () => {
+    await connectRemoteClient(client, httpServer.getUrl());
+    expect(httpServer.sessionCount()).toBe(1);
+
+    await closeRemoteClient(client);
+
+    expect(httpServer.sessionCount()).toBe(0);
+  });
+});
+
+describe('isHttpUrl', () => {
+  it.each([
+    ['http://localhost:8080/mcp', true],
+    ['https://example.com/sse', true],
+    ['ws://localhost:8080', false],
+    ['localhost:8080', false],
+    ['not a url', false]
+  ])('%s -> %s', (value, expected) => {
+    expect(isHttpUrl(value)).toBe(expected);
+  });
+});
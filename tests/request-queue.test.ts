@@ -0,0 +1,105 @@
+/**
+ * Tests for RequestQueue - parking requests during child restarts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { RequestQueue } from '../src/request-queue.js';
+import { PROXY_SPECIFIC_ERROR_CODES } from '../src/errors.js';
+
+// Mock logger
+vi.mock('../src/mcp-logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+describe('RequestQueue', () => {
+  let queue: RequestQueue;
+  const childClient = { name: 'new-child' } as any;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    queue = new RequestQueue({ maxSize: 2, timeout: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should replay parked requests against the resumed client', async () => {
+    queue.pause();
+    const first = queue.enqueue('tools/call echo');
+    const second = queue.enqueue('resources/read');
+    expect(queue.size()).toBe(2);
+
+    queue.resume(childClient);
+
+    await expect(first).resolves.toBe(childClient);
+    await expect(second).resolves.toBe(childClient);
+    expect(queue.isPaused()).toBe(false);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('should reject requests beyond the queue bound', async () => {
+    queue.pause();
+    void queue.enqueue('ping');
+    void queue.enqueue('ping');
+
+    await expect(queue.enqueue('ping')).rejects.toMatchObject({
+      code: PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE
+    });
+  });
+
+  it('should time out requests that wait too long', async () => {
+    queue.pause();
+    const request = queue.enqueue('prompts/get');
+    const assertion = expect(request).rejects.toThrow(/did not become available within 1000ms/);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await assertion;
+    expect(queue.size()).toBe(0);
+  });
+
+  it('should fail all parked requests when no child is available', async () => {
+    queue.pause();
+    const request = queue.enqueue('tools/call echo');
+
+    queue.rejectAll(new McpError(PROXY_SPECIFIC_ERROR_CODES.CHILD_UNAVAILABLE, 'restart failed'));
+
+    await expect(request).rejects.toThrow('restart failed');
+    expect(queue.isPaused()).toBe(false);
+  });
+
+  it('should drop a parked request when it is cancelled', async () => {
+    queue.pause();
+    const controller = new AbortController();
+    const request = queue.enqueue('tools/call slow', controller.signal);
+
+    controller.abort('user cancelled');
+
+    await expect(request).rejects.toThrow('Request cancelled while queued (tools/call slow)');
+    expect(queue.size()).toBe(0);
+  });
+
+  it('should remove its abort listener once a parked request settles', async () => {
+    const signal = new AbortController().signal;
+    const removeEventListener = vi.spyOn(signal, 'removeEventListener');
+
+    queue.pause();
+    const resumed = queue.enqueue('tools/call echo', signal);
+    queue.resume(childClient);
+    await expect(resumed).resolves.toBe(childClient);
+    expect(removeEventListener).toHaveBeenCalledTimes(1);
+
+    queue.pause();
+    const rejected = queue.enqueue('tools/call echo', signal);
+    queue.rejectAll(new Error('restart failed'));
+    await expect(rejected).rejects.toThrow('restart failed');
+    expect(removeEventListener).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for schema validation of tool arguments and results
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { SchemaValidator, formatSchemaErrors } from '../src/schema-validator.js';
+
+const tool: Tool = {
+  name: 'create',
+  inputSchema: {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      tags: { type: 'array', items: { type: 'string' } },
+      'a/b': { type: 'object', properties: { due: { type: 'string', format: 'x-custom-date' } }, required: ['due'] }
+    },
+    required: ['title'],
+    additionalProperties: false
+  }
+};
+
+describe('SchemaValidator.validateArguments', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should accept arguments that match the schema', () => {
+    const validator = new SchemaValidator();
+
+    expect(validator.validateArguments(tool, { title: 'Groceries', tags: ['home'], 'a/b': { due: 'today' } })).toEqual([]);
+  });
+
+  it('should report every violation at its JSON pointer', () => {
+    const errors = new SchemaValidator().validateArguments(tool, { tags: ['home', 3], extra: true, 'a/b': {} });
+
+    expect(errors).toEqual([
+      { path: '/extra', message: 'should NOT have additional properties' },
+      { path: '/title', message: "should have required property 'title'" },
+      { path: '/tags/1', message: 'should be string' },
+      { path: '/a~1b/due', message: "should have required property 'due'" }
+    ]);
+    expect(formatSchemaErrors(errors.slice(0, 2))).toBe([
+      '/extra: should NOT have additional properties',
+      "/title: should have required property 'title'"
+    ].join('\n'));
+  });
+
+  it('should validate missing arguments as an empty object', () => {
+    expect(new SchemaValidator().validateArguments(tool, undefined)).toEqual([
+      { path: '/title', message: "should have required property 'title'" }
+    ]);
+  });
+
+  it('should not validate against a schema that does not compile', () => {
+    const broken: Tool = { name: 'broken', inputSchema: { type: 'object', properties: { a: { type: 'nonsense' } } } };
+
+    expect(new SchemaValidator().validateArguments(broken, { a: 1 })).toEqual([]);
+  });
+
+  it('should not write ajv warnings to the console', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const refs: Tool = { name: 'refs', inputSchema: { type: 'object', properties: { a: { $ref: '#/$defs/missing' } } } };
+
+    expect(new SchemaValidator().validateArguments(refs, { a: 1 })).toEqual([]);
+    expect(warn).not.toHaveBeenCalled();
+    expect(log).not.toHaveBeenCalled();
+  });
+});
+
+describe('SchemaValidator.validateStructuredContent', () => {
+  const reporter: Tool = {
+    name: 'report',
+    inputSchema: { type: 'object' },
+    outputSchema: { type: 'object', properties: { count: { type: 'integer' } }, required: ['count'] }
+  };
+
+  it('should check structuredContent against the outputSchema', () => {
+    const validator = new SchemaValidator();
+
+    expect(validator.validateStructuredContent(reporter, { content: [], structuredContent: { count: 3 } })).toEqual([]);
+    expect(validator.validateStructuredContent(reporter, { content: [], structuredContent: { count: 'three' } })).toEqual([
+      { path: '/count', message: 'should be integer' }
+    ]);
+  });
+
+  it('should require structuredContent unless the result is an error', () => {
+    const validator = new SchemaValidator();
+
+    expect(validator.validateStructuredContent(reporter, { content: [] })).toEqual([
+      { path: '', message: 'structuredContent is missing but the tool declares an outputSchema' }
+    ]);
+    expect(validator.validateStructuredContent(reporter, { content: [], isError: true })).toEqual([]);
+  });
+
+  it('should accept any result from a tool without an outputSchema', () => {
+    expect(new SchemaValidator().validateStructuredContent(tool, { content: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for session replay - re-issuing recorded requests and comparing the responses
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolRequestSchema, ListToolsRequestSchema, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { extractReplaySteps, loadRecording, replaySession } from '../src/session-replay.js';
+import type { TrafficDirection, TrafficRecord } from '../src/traffic-recorder.js';
+
+// Mock logger
+vi.mock('../src/mcp-logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+const record = (direction: TrafficDirection, generation: number, message: JSONRPCMessage): TrafficRecord => ({
+  timestamp: '2025-07-01T10:00:00.000Z',
+  direction,
+  generation,
+  message
+});
+
+const toolsList = { jsonrpc: '2.0' as const, id: 1, method: 'tools/list' };
+const echoCall = (id: number, text: string) => ({
+  jsonrpc: '2.0' as const,
+  id,
+  method: 'tools/call',
+  params: { name: 'echo', arguments: { text }, _meta: { progressToken: 7 } }
+});
+
+describe('extractReplaySteps', () => {
+  it('should pair client requests with the responses the client got', () => {
+    const { steps, skipped } = extractReplaySteps([
+      record('client->proxy', 1, { jsonrpc: '2.0', id: 0, method: 'initialize', params: {} }),
+      record('proxy->client', 1, { jsonrpc: '2.0', id: 0, result: {} }),
+      record('client->proxy', 1, echoCall(1, 'first')),
+      record('proxy->child', 1, echoCall(2, 'first')),
+      record('child->proxy', 1, { jsonrpc: '2.0', id: 2, result: { content: [] } }),
+      record('proxy->client', 1, { jsonrpc: '2.0', id: 1, result: { content: [] } }),
+      record('client->proxy', 2, echoCall(2, 'second')),
+      record('proxy->client', 2, { jsonrpc: '2.0', id: 2, error: { code: -32602, message: 'bad' } }),
+      record('client->proxy', 2, echoCall(3, 'cancelled'))
+    ]);
+
+    expect(steps.map(step => [step.generation, step.request.params?.['arguments'], step.expected])).toEqual([
+      [1, { text: 'first' }, { result: { content: [] } }],
+      [2, { text: 'second' }, { error: { code: -32602, message: 'bad' } }]
+    ]);
+    expect(skipped).toBe(1);
+  });
+
+  it('should leave out the requests the proxy sends the child on its own', () => {
+    const { steps, skipped } = extractReplaySteps([
+      record('proxy->child', 2, toolsList),
+      record('child->proxy', 2, { jsonrpc: '2.0', id: 1, result: { tools: [] } }),
+      record('proxy->child', 2, { jsonrpc: '2.0', id: 2, method: 'resources/subscribe', params: { uri: 'file:///a.txt' } }),
+      record('child->proxy', 2, { jsonrpc: '2.0', id: 2, result: {} })
+    ]);
+
+    expect(steps).toEqual([]);
+    expect(skipped).toBe(0);
+  });
+
+  it('should match responses per HTTP session', () => {
+    const { steps } = extractReplaySteps([
+      { ...record('client->proxy', 1, echoCall(1, 'a')), sessionId: 'a' },
+      { ...record('client->proxy', 1, echoCall(1, 'b')), sessionId: 'b' },
+      { ...record('proxy->client', 1, { jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: 'b' }] } }), sessionId: 'b' },
+      { ...record('proxy->client', 1, { jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: 'a' }] } }), sessionId: 'a' }
+    ]);
+
+    expect(steps.map(step => [step.request.params?.['arguments'], step.expected])).toEqual([
+      [{ text: 'a' }, { result: { content: [{ type: 'text', text: 'a' }] } }],
+      [{ text: 'b' }, { result: { content: [{ type: 'text', text: 'b' }] } }]
+    ]);
+  });
+
+  it('should leave out what the proxy adds to the session', () => {
+    const { steps, skipped } = extractReplaySteps([
+      record('client->proxy', 1, toolsList),
+      record('proxy->client', 1, {
+        jsonrpc: '2.0',
+        id: 1,
+        result: { tools: [{ name: 'echo', inputSchema: { type: 'object' } }, { name: 'restart_server', inputSchema: { type: 'object' } }] }
+      }),
+      record('client->proxy', 1, { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'restart_server' } }),
+      record('proxy->client', 1, { jsonrpc: '2.0', id: 2, result: { content: [] } }),
+      record('client->proxy', 1, echoCall(3, 'during restart')),
+      record('proxy->client', 1, { jsonrpc: '2.0', id: 3, error: { code: -32000, message: 'Child server is not available' } })
+    ]);
+
+    expect(steps.map(step => [step.request.method, step.expected])).toEqual([
+      ['tools/list', { result: { tools: [{ name: 'echo', inputSchema: { type: 'object' } }] } }]
+    ]);
+    expect(skipped).toBe(1);
+  });
+});
+
+describe('loadRecording', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reloaderoo-replay-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read one record per line, skipping blank lines', () => {
+    const file = join(dir, 'session.jsonl');
+    writeFileSync(file, `${JSON.stringify(record('client->proxy', 1, toolsList))}\n\n`);
+
+    expect(loadRecording(file)).toEqual([record('client->proxy', 1, toolsList)]);
+  });
+
+  it.each([
+    ['not json', /Invalid JSON on line 2/],
+    ['{"message":{}}', /Line 2 .* is not a recorded message/]
+  ])('should reject %s', (line, error) => {
+    const file = join(dir, 'session.jsonl');
+    writeFileSync(file, `${JSON.stringify(record('client->proxy', 1, toolsList))}\n${line}\n`);
+
+    expect(() => loadRecording(file)).toThrow(error);
+  });
+});
+
+describe('replaySession', () => {
+  let server: Server;
+  let client: Client;
+
+  beforeEach(async () => {
+    server = new Server({ name: 'child', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'echo', inputSchema: { type: 'object' as const } }]
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+      content: [{ type: 'text' as const, text: `${request.params.arguments?.['text']} at 2025-07-02T08:30:00.000Z` }],
+      requestId: 'b3f1c2d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d'
+    }));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'replay', version: '1.0.0' });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  const recordedEcho = [
+    record('client->proxy', 1, echoCall(2, 'hi')),
+    record('proxy->client', 1, {
+      jsonrpc: '2.0',
+      id: 2,
+      result: {
+        content: [{ type: 'text', text: 'hi at 2025-07-01T10:00:00.000Z' }],
+        requestId: '11111111-2222-4333-8444-555555555555'
+      }
+    })
+  ];
+
+  it('should report matching responses', async () => {
+    const report = await replaySession(client, [
+      record('client->proxy', 1, toolsList),
+      record('proxy->client', 1, { jsonrpc: '2.0', id: 1, result: { tools: [{ name: 'echo', inputSchema: { type: 'object' } }] } })
+    ]);
+
+    expect(report).toEqual({ replayed: 1, matched: 1, mismatches: [], skipped: 0 });
+  });
+
+  it('should report the differences of responses that changed', async () => {
+    const report = await replaySession(client, recordedEcho);
+
+    expect(report.matched).toBe(0);
+    expect(report.mismatches).toEqual([{
+      index: 1,
+      method: 'tools/call',
+      params: echoCall(2, 'hi').params,
+      differences: [
+        { path: '/result/content/0/text', expected: 'hi at 2025-07-01T10:00:00.000Z', actual: 'hi at 2025-07-02T08:30:00.000Z' },
+        { path: '/result/requestId', expected: '11111111-2222-4333-8444-555555555555', actual: 'b3f1c2d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d' }
+      ]
+    }]);
+  });
+
+  it('should ignore volatile values and ignored fields', async () => {
+    expect((await replaySession(client, recordedEcho, { ignoreVolatile: true })).mismatches).toEqual([]);
+
+    const report = await replaySession(client, recordedEcho, { ignoreFields: ['requestId'] });
+    expect(report.mismatches[0]?.differences.map(d => d.path)).toEqual(['/result/content/0/text']);
+  });
+
+  it('should compare error responses by code and message', async () => {
+    const report = await replaySession(client, [
+      record('client->proxy', 1, { jsonrpc: '2.0', id: 4, method: 'prompts/list' }),
+      record('proxy->client', 1, { jsonrpc: '2.0', id: 4, error: { code: -32601, message: 'Method not found' } })
+    ]);
+
+    expect(report.matched).toBe(1);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for session scripts - running dependent inspect steps against one server session
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { loadScript, resolveVariables, runScript, type ScriptRunOptions } from '../src/session-script.js';
+
+describe('loadScript', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reloaderoo-script-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (name: string, content: string): string => {
+    const file = join(dir, name);
+    writeFileSync(file, content);
+    return file;
+  };
+
+  it('should read YAML and JSON scripts', () => {
+    const yaml = write('script.yaml', [
+      'steps:',
+      '  - action: call-tool',
+      '    id: created',
+      '    name: create',
+      '    arguments: { title: Test }',
+      '  - action: ping'
+    ].join('\n'));
+    const json = write('script.json', '{"steps": [{"action": "read-resource", "uri": "file:///a.txt"}]}');
+
+    expect(loadScript(yaml).steps).toEqual([
+      { action: 'call-tool', id: 'created', name: 'create', arguments: { title: 'Test' } },
+      { action: 'ping' }
+    ]);
+    expect(loadScript(json).steps).toEqual([{ action: 'read-resource', uri: 'file:///a.txt' }]);
+  });
+
+  it.each([
+    ['a script without steps', '{"tests": []}', /must have a list of steps/],
+    ['an unknown action', '{"steps": [{"action": "call"}]}', /Step 1 of .* has unknown action "call"/],
+    ['a missing field', '{"steps": [{"action": "ping"}, {"action": "get-prompt"}]}', /Step 2 of .* \(get-prompt\) needs a name/],
+    ['a reused id', '{"steps": [{"action": "ping", "id": "a"}, {"action": "ping", "id": "a"}]}', /reuses the id 'a'/],
+    ['invalid syntax', 'steps: [', /Cannot read script/]
+  ])('should reject %s', (_description, content, error) => {
+    expect(() => loadScript(write('script.yaml', content))).toThrow(error);
+  });
+});
+
+describe('resolveVariables', () => {
+  const results = new Map<string, unknown>([
+    ['created', { content: [{ type: 'text', text: 'item-1' }], structuredContent: { id: 7, 'odd key': true } }]
+  ]);
+
+  it('should substitute whole values and interpolate text', () => {
+    expect(resolveVariables({
+      id: '${created.structuredContent.id}',
+      odd: '${created.structuredContent["odd key"]}',
+      uri: 'items://${created.content[0].text}/details',
+      nested: ['${$.created.content[0].type}']
+    }, results)).toEqual({
+      id: 7,
+      odd: true,
+      uri: 'items://item-1/details',
+      nested: ['text']
+    });
+  });
+
+  it.each([
+    ['${missing.id}', /refers to no earlier step with id 'missing'/],
+    ['${created.content[3]}', /does not resolve: no index 3/],
+    ['${created.structuredContent.name}', /does not resolve: no property 'name'/],
+    ['${created..id}', /Invalid variable path/]
+  ])('should reject %s', (value, error) => {
+    expect(() => resolveVariables(value, results)).toThrow(error);
+  });
+});
+
+describe('runScript', () => {
+  let connections: number;
+  let closed: number;
+  let options: ScriptRunOptions;
+
+  beforeEach(() => {
+    connections = 0;
+    closed = 0;
+    options = {
+      connect: async () => {
+        const generation = ++connections;
+        // Items live in server memory, so they only survive within one connection
+        const items = new Map<string, string>();
+        const server = new Server({ name: 'items', version: '1.0.0' }, { capabilities: { tools: {} } });
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+        server.setRequestHandler(CallToolRequestSchema, async (request) => {
+          const args = request.params.arguments ?? {};
+          if (request.params.name === 'create') {
+            const id = `item-${items.size + 1}`;
+            items.set(id, String(args['title']));
+            return { content: [{ type: 'text' as const, text: id }], structuredContent: { id, generation } };
+          }
+          const title = items.get(String(args['id']));
+          return title === undefined
+            ? { content: [{ type: 'text' as const, text: 'No such item' }], isError: true }
+            : { content: [{ type: 'text' as const, text: title }] };
+        });
+
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        const client = new Client({ name: 'script', version: '1.0.0' });
+        await server.connect(serverTransport);
+        await client.connect(clientTransport);
+        return client;
+      },
+      close: async (client) => {
+        closed++;
+        await client.close();
+      }
+    };
+  });
+
+  it('should pass earlier results to later steps in one session', async () => {
+    const report = await runScript({
+      steps: [
+        { action: 'call-tool', id: 'created', name: 'create', arguments: { title: 'Test' } },
+        { action: 'call-tool', name: 'get', arguments: { id: '${created.structuredContent.id}' } }
+      ]
+    }, options);
+
+    expect(report.passed).toBe(true);
+    expect(report.skipped).toBe(0);
+    expect(report.steps[1]).toEqual({
+      index: 2,
+      action: 'call-tool',
+      durationMs: expect.any(Number),
+      result: { content: [{ type: 'text', text: 'Test' }] }
+    });
+    expect(connections).toBe(1);
+    expect(closed).toBe(1);
+  });
+
+  it('should reconnect on restart and stop at the first failing step', async () => {
+    const report = await runScript({
+      steps: [
+        { action: 'call-tool', id: 'created', name: 'create', arguments: { title: 'Test' } },
+        { action: 'restart' },
+        { action: 'call-tool', name: 'get', arguments: { id: '${created.structuredContent.id}' } },
+        { action: 'ping' }
+      ]
+    }, options);
+
+    expect(report.passed).toBe(false);
+    expect(report.steps.map(step => step.action)).toEqual(['call-tool', 'restart', 'call-tool']);
+    expect(report.steps[2]!.error).toBe('Tool returned an error result');
+    expect(report.skipped).toBe(1);
+    expect(connections).toBe(2);
+    expect(closed).toBe(2);
+  });
+});
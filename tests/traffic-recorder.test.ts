@@ -0,0 +1,118 @@
+/**
+ * Tests for TrafficRecorder - recording the JSON-RPC messages crossing the proxy to JSONL
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { TrafficRecorder, type TrafficRecord } from '../src/traffic-recorder.js';
+
+// Mock logger
+vi.mock('../src/mcp-logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn()
+  }
+}));
+
+describe('TrafficRecorder', () => {
+  let dir: string;
+  let file: string;
+  let recorder: TrafficRecorder;
+  let server: Server;
+  let client: Client;
+
+  const readRecords = (): TrafficRecord[] =>
+    readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line) as TrafficRecord);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reloaderoo-record-'));
+    file = join(dir, 'session.jsonl');
+    recorder = new TrafficRecorder(file);
+
+    server = new Server({ name: 'child', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'echo', inputSchema: { type: 'object' as const } }]
+    }));
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should truncate the file when opened', () => {
+    writeFileSync(file, 'previous session\n');
+
+    recorder.open();
+
+    expect(readFileSync(file, 'utf8')).toBe('');
+  });
+
+  it('should record the child hop in both directions with the child generation', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    recorder.open();
+    recorder.attachChild(clientTransport, 2);
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    await client.listTools();
+
+    const records = readRecords();
+    expect(records.map(r => [r.direction, 'method' in r.message ? r.message.method : 'response'])).toEqual([
+      ['proxy->child', 'initialize'],
+      ['child->proxy', 'response'],
+      ['proxy->child', 'notifications/initialized'],
+      ['proxy->child', 'tools/list'],
+      ['child->proxy', 'response']
+    ]);
+    expect(records.every(r => r.generation === 2)).toBe(true);
+    expect(records[4]?.message).toMatchObject({ result: { tools: [{ name: 'echo' }] } });
+    expect(Date.parse(records[0]!.timestamp)).not.toBeNaN();
+  });
+
+  it('should record the client hop with the generation serving at the time', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    recorder.open();
+    recorder.setGeneration(1);
+    recorder.attachClient(serverTransport);
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    recorder.setGeneration(2);
+    await client.listTools();
+
+    const records = readRecords();
+    expect(records.map(r => [r.direction, r.generation])).toEqual([
+      ['client->proxy', 1],
+      ['proxy->client', 1],
+      ['client->proxy', 1],
+      ['client->proxy', 2],
+      ['proxy->client', 2]
+    ]);
+    expect(records[0]).not.toHaveProperty('sessionId');
+  });
+
+  it('should record error responses', async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    recorder.open();
+    recorder.attachClient(serverTransport);
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    await expect(client.listPrompts()).rejects.toThrow();
+
+    const last = readRecords().pop();
+    expect(last?.direction).toBe('proxy->client');
+    expect(last?.message).toMatchObject({ error: { code: -32601 } });
+  });
+});
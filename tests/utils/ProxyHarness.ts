@@ -0,0 +1,355 @@
+/**
+ * Proxy test harness
+ * Runs MCPProxy against scripted child servers and talks to it as a real MCP client,
+ * in memory for a stdio session or over HTTP for several sessions
+ */
+
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { createServer as createHttpServer, type Server as NodeHttpServer } from 'http';
+import { createServer as createNetServer, type AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  CallToolResultSchema,
+  CreateMessageResultSchema,
+  ListRootsRequestSchema,
+  ListToolsRequestSchema,
+  type ClientCapabilities,
+  type JSONRPCMessage,
+  type Notification,
+  type Root,
+  type ServerCapabilities,
+  type Tool
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPProxy } from '../../src/mcp-proxy.js';
+import type { ProxyConfig } from '../../src/types.js';
+
+/** Path of the scripted child server, the first argument the proxy spawns node with */
+export const SCRIPTED_CHILD_SERVER = fileURLToPath(new URL('./scripted-child-server.js', import.meta.url));
+
+/** What a failing method does: answer with an error, never answer, or exit the process */
+export type ScriptedFailure = 'error' | 'method-not-found' | 'hang' | 'exit';
+
+/**
+ * Behaviour of the scripted child server. Capabilities, server info, instructions and
+ * protocol version apply to generations started afterwards; everything else to the next request.
+ */
+export interface ChildScript {
+  serverInfo?: { name: string; version: string };
+  capabilities?: ServerCapabilities;
+  instructions?: string;
+  /** Protocol version to answer initialize with */
+  protocolVersion?: string;
+  tools?: Tool[];
+  prompts?: Array<{ name: string }>;
+  resources?: Array<{ uri: string; name: string }>;
+  resourceTemplates?: Array<{ uriTemplate: string; name: string }>;
+  /** Results by page cursor ('' for the first page), per list method */
+  pages?: Record<string, Record<string, Record<string, unknown>>>;
+  toolResults?: Record<string, Record<string, unknown>>;
+  failures?: Record<string, ScriptedFailure>;
+  /** Milliseconds to wait before answering, per method */
+  delays?: Record<string, number>;
+  /** Exit with code 1 right after starting */
+  exitOnStart?: boolean;
+  /** Ask the client for its roots once initialized; the answer is journaled */
+  listRootsOnInitialized?: boolean;
+}
+
+/** A line of the scripted child's journal */
+export interface JournalEntry {
+  pid: number;
+  type: 'start' | 'message' | 'exit' | 'roots';
+  argv?: string[];
+  cwd?: string;
+  /** The TEST_* environment variables the child was started with */
+  env?: Record<string, string>;
+  message?: JSONRPCMessage & { method?: string; params?: Record<string, unknown> };
+  /** The client's answer to listRootsOnInitialized, or the error it failed with */
+  result?: Record<string, unknown>;
+}
+
+/** A client connected to the proxy */
+export interface ProxyClient {
+  client: Client;
+  /** Notifications the proxy sent this client that have no handler of their own, in order */
+  notifications: Notification[];
+  /** Call a tool and return the text of its result */
+  call(name: string, args?: Record<string, unknown>): Promise<string>;
+  /** Call restart_server */
+  restart(args?: Record<string, unknown>): Promise<{ text: string; isError: boolean }>;
+  close(): Promise<void>;
+}
+
+/** A proxy serving one client session in memory, like a stdio client */
+export interface StdioProxy extends ProxyClient {
+  proxy: MCPProxy;
+}
+
+/** A proxy serving client sessions over HTTP */
+export interface HttpProxy {
+  proxy: MCPProxy;
+  url: string;
+  connect(options?: { name?: string; capabilities?: ClientCapabilities }): Promise<ProxyClient>;
+}
+
+/** Cleanups of everything the harness started, run last-in first-out */
+const cleanups: Array<() => Promise<void> | void> = [];
+
+/**
+ * Stop every proxy and HTTP child and remove every scripted child directory the harness created
+ */
+export async function cleanupProxyHarness(): Promise<void> {
+  while (cleanups.length > 0) {
+    await cleanups.pop()!();
+  }
+}
+
+/**
+ * A scripted child server: the proxy spawns one process per generation from its config(),
+ * and each of them follows script.json and appends to the shared journal
+ */
+export class ScriptedChild {
+  readonly dir: string;
+  private current: ChildScript;
+
+  constructor(script: ChildScript = {}) {
+    this.dir = mkdtempSync(join(tmpdir(), 'reloaderoo-scripted-child-'));
+    this.current = script;
+    this.write();
+    cleanups.push(() => rmSync(this.dir, { recursive: true, force: true }));
+  }
+
+  /** Change the script; fields that are passed replace the current ones */
+  script(update: ChildScript): void {
+    this.current = { ...this.current, ...update };
+    this.write();
+  }
+
+  /** Proxy configuration that spawns this child */
+  config(overrides: Partial<ProxyConfig> = {}): ProxyConfig {
+    return {
+      childCommand: process.execPath,
+      childArgs: [SCRIPTED_CHILD_SERVER],
+      workingDirectory: this.dir,
+      restartLimit: 3,
+      operationTimeout: 10000,
+      logLevel: 'error',
+      autoRestart: true,
+      restartDelay: 200,
+      ...overrides,
+      environment: { SCRIPTED_CHILD_DIR: this.dir, ...overrides.environment }
+    };
+  }
+
+  journal(): JournalEntry[] {
+    let content: string;
+    try {
+      content = readFileSync(join(this.dir, 'journal.jsonl'), 'utf8');
+    } catch {
+      return [];
+    }
+    return content.split('\n').filter(line => line).map(line => JSON.parse(line) as JournalEntry);
+  }
+
+  /** One entry per spawned generation, oldest first */
+  starts(): JournalEntry[] {
+    return this.journal().filter(entry => entry.type === 'start');
+  }
+
+  /** Messages with the given method the child received, from one generation or all of them */
+  received(method: string, pid?: number): JournalEntry[] {
+    return this.journal().filter(entry =>
+      entry.type === 'message' && entry.message?.method === method && (pid === undefined || entry.pid === pid)
+    );
+  }
+
+  /** Position of the first journal entry that matches, -1 if there is none */
+  indexOf(match: (entry: JournalEntry) => boolean): number {
+    return this.journal().findIndex(match);
+  }
+
+  private write(): void {
+    writeFileSync(join(this.dir, 'script.json'), JSON.stringify(this.current));
+  }
+}
+
+/**
+ * Whether a process is still running
+ */
+export function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A port nothing listens on right now
+ */
+export async function freePort(): Promise<number> {
+  const server = createNetServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  return port;
+}
+
+/**
+ * Start a proxy in stdio mode and connect a client to it in memory.
+ * The proxy starts the child once the client's initialize arrives.
+ */
+export async function startProxy(
+  config: ProxyConfig,
+  options: { capabilities?: ClientCapabilities; roots?: Root[] } = {}
+): Promise<StdioProxy> {
+  const proxy = new MCPProxy(config);
+  cleanups.push(() => proxy.stop());
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const [, connected] = await Promise.all([
+    proxy.start(serverTransport),
+    connectClient(clientTransport, 'test-client', options.capabilities, options.roots)
+  ]);
+  return { proxy, ...connected };
+}
+
+/**
+ * Start a proxy serving HTTP sessions on a free port
+ */
+export async function startHttpProxy(config: ProxyConfig): Promise<HttpProxy> {
+  const port = await freePort();
+  const proxy = new MCPProxy({ ...config, transport: 'http', host: '127.0.0.1', port });
+  cleanups.push(() => proxy.stop());
+  await proxy.start();
+
+  const url = `http://127.0.0.1:${port}/mcp`;
+  return {
+    proxy,
+    url,
+    connect: ({ name = 'test-client', capabilities } = {}) =>
+      connectClient(new StreamableHTTPClientTransport(new URL(url)), name, capabilities)
+  };
+}
+
+/**
+ * Connect a client to the proxy; with roots it supports roots and answers with them
+ */
+async function connectClient(
+  transport: InMemoryTransport | StreamableHTTPClientTransport,
+  name: string,
+  capabilities: ClientCapabilities = {},
+  roots?: Root[]
+): Promise<ProxyClient> {
+  const client = new Client({ name, version: '1.0.0' }, { capabilities: roots ? { ...capabilities, roots: {} } : capabilities });
+  if (roots) {
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots }));
+  }
+  const notifications: Notification[] = [];
+  client.fallbackNotificationHandler = async (notification) => {
+    notifications.push(notification);
+  };
+  await client.connect(transport as Transport);
+
+  let closed = false;
+  const close = async (): Promise<void> => {
+    if (closed) return;
+    closed = true;
+    // Ending an HTTP session tells the proxy the client is gone
+    if (transport instanceof StreamableHTTPClientTransport) {
+      await transport.terminateSession().catch(() => undefined);
+    }
+    await client.close().catch(() => undefined);
+  };
+  cleanups.push(close);
+
+  // Plain requests, so the client doesn't check results against the tools' outputSchema itself
+  const callTool = (name: string, args?: Record<string, unknown>) =>
+    client.request({ method: 'tools/call', params: { name, ...(args && { arguments: args }) } }, CallToolResultSchema);
+  const text = (content: Array<{ type: string; text?: string }>) =>
+    content.map(item => item.text ?? '').join('\n');
+
+  return {
+    client,
+    notifications,
+    call: async (name, args) => text((await callTool(name, args)).content),
+    restart: async (args) => {
+      const result = await callTool('restart_server', args);
+      return { text: text(result.content), isError: result.isError === true };
+    },
+    close
+  };
+}
+
+/**
+ * A child server running as an HTTP service. Its `ask` tool asks the client for a sampling
+ * completion and returns the text; `whoami` answers 'http-child'.
+ */
+export async function startHttpChild(port = 0): Promise<{
+  url: string;
+  initializations: () => number;
+  close: () => Promise<void>;
+}> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  let initializations = 0;
+
+  const httpServer: NodeHttpServer = createHttpServer(async (req, res) => {
+    const sessionId = req.headers['mcp-session-id'];
+    let transport = typeof sessionId === 'string' ? transports.get(sessionId) : undefined;
+    if (!transport) {
+      initializations++;
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => transports.set(id, created)
+      });
+      const server = new Server({ name: 'child', version: '1.0.0' }, { capabilities: { tools: {} } });
+      server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: [
+          { name: 'ask', inputSchema: { type: 'object' as const } },
+          { name: 'whoami', inputSchema: { type: 'object' as const } }
+        ]
+      }));
+      server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        if (request.params.name === 'whoami') {
+          return { content: [{ type: 'text' as const, text: 'http-child' }] };
+        }
+        const result = await extra.sendRequest({
+          method: 'sampling/createMessage',
+          params: { messages: [{ role: 'user', content: { type: 'text', text: 'hello' } }], maxTokens: 10 }
+        }, CreateMessageResultSchema);
+        return { content: [{ type: 'text' as const, text: result.content.type === 'text' ? result.content.text : '' }] };
+      });
+      await server.connect(created);
+      transport = created;
+    }
+    await transport.handleRequest(req, res);
+  });
+  await new Promise<void>((resolve) => httpServer.listen(port, '127.0.0.1', resolve));
+
+  let closed = false;
+  const close = async (): Promise<void> => {
+    if (closed) return;
+    closed = true;
+    await Promise.all([...transports.values()].map(transport => transport.close()));
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  };
+  cleanups.push(close);
+
+  return {
+    url: `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`,
+    initializations: () => initializations,
+    close
+  };
+}
@@ -7,7 +7,18 @@ export { ReloaderooProcess } from './ReloaderooProcess.js';
 export { TestMCPClient } from './TestMCPClient.js';
 export { TestServer } from './TestServer.js';
 export { TestHelpers } from './TestHelpers.js';
+export {
+  ScriptedChild,
+  SCRIPTED_CHILD_SERVER,
+  cleanupProxyHarness,
+  freePort,
+  isRunning,
+  startHttpChild,
+  startHttpProxy,
+  startProxy
+} from './ProxyHarness.js';
 
 export type { MCPMessage, ReloaderooOptions } from './ReloaderooProcess.js';
 export type { MCPRequest, MCPResponse } from './TestMCPClient.js';
-export type { TestServerOptions } from './TestServer.js';
\ No newline at end of file
+export type { TestServerOptions } from './TestServer.js';
+export type { ChildScript, HttpProxy, JournalEntry, ProxyClient, ScriptedFailure, StdioProxy } from './ProxyHarness.js';
\ No newline at end of file
@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+
+/**
+ * Child MCP server for proxy tests, scripted through files in SCRIPTED_CHILD_DIR:
+ * - script.json describes what the server offers. Capabilities are read at startup,
+ *   everything else for every request, so a test can change the next answer.
+ * - journal.jsonl gets a line when the server starts, for every message it receives
+ *   and when it exits, from every generation the proxy spawns.
+ */
+
+import { appendFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolRequestSchema,
+  CompleteRequestSchema,
+  CreateMessageResultSchema,
+  ErrorCode,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+
+const dir = process.env.SCRIPTED_CHILD_DIR;
+if (!dir) {
+  console.error('SCRIPTED_CHILD_DIR is not set');
+  process.exit(2);
+}
+
+const readScript = () => JSON.parse(readFileSync(join(dir, 'script.json'), 'utf8'));
+const journal = (entry) => appendFileSync(join(dir, 'journal.jsonl'), `${JSON.stringify({ pid: process.pid, ...entry })}\n`);
+
+const script = readScript();
+journal({
+  type: 'start',
+  argv: process.argv.slice(2),
+  cwd: process.cwd(),
+  env: Object.fromEntries(Object.entries(process.env).filter(([key]) => key.startsWith('TEST_')))
+});
+
+if (script.exitOnStart) {
+  process.exit(1);
+}
+
+const capabilities = script.capabilities ?? {
+  tools: {},
+  prompts: {},
+  resources: { subscribe: true },
+  completions: {},
+  logging: {}
+};
+const server = new Server(script.serverInfo ?? { name: 'scripted-child', version: '1.0.0' }, {
+  capabilities,
+  ...(script.instructions && { instructions: script.instructions })
+});
+
+/**
+ * Answer a method from the script: a scripted failure or delay comes first,
+ * then a scripted page for the request's cursor, then the handler
+ */
+function handle(schema, handler) {
+  const method = schema.shape.method.value;
+  server.setRequestHandler(schema, async (request, extra) => {
+    const current = readScript();
+    const delay = current.delays?.[method];
+    if (delay) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+    switch (current.failures?.[method]) {
+      case 'error':
+        throw new McpError(ErrorCode.InternalError, `Scripted failure of ${method}`);
+      case 'method-not-found':
+        throw new McpError(ErrorCode.MethodNotFound, 'Method not found');
+      case 'hang':
+        return new Promise(() => {});
+      case 'exit':
+        process.exit(1);
+    }
+    const page = current.pages?.[method]?.[request.params?.cursor ?? ''];
+    return page ?? handler(request, extra, current);
+  });
+}
+
+/** Tools with built-in behaviour; any other tool answers with script.toolResults[name] */
+const builtinTools = {
+  // Reports which generation answered
+  whoami: () => ({ content: [{ type: 'text', text: String(process.pid) }] }),
+  // Reports progress, then runs until it is cancelled
+  slow: async (_args, extra) => {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken !== undefined) {
+      await extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress: 3, total: 10 } });
+    }
+    return new Promise((_resolve, reject) => {
+      extra.signal.addEventListener('abort', () => reject(new Error('cancelled')));
+    });
+  },
+  crash: () => process.exit(1),
+  // Sends the given notifications in order
+  notify: async (args) => {
+    for (const notification of args.notifications ?? []) {
+      await server.notification(notification);
+    }
+    return { content: [] };
+  },
+  // Asks the client for a sampling completion and returns its text
+  ask: async (_args, extra) => {
+    const result = await extra.sendRequest({
+      method: 'sampling/createMessage',
+      params: { messages: [{ role: 'user', content: { type: 'text', text: 'hello' } }], maxTokens: 10 }
+    }, CreateMessageResultSchema);
+    return { content: [{ type: 'text', text: result.content.type === 'text' ? result.content.text : '' }] };
+  }
+};
+
+if (capabilities.tools) {
+  handle(ListToolsRequestSchema, (_request, _extra, current) => ({ tools: current.tools ?? [] }));
+  handle(CallToolRequestSchema, (request, extra, current) => {
+    const { name, arguments: args = {} } = request.params;
+    const builtin = builtinTools[name];
+    return builtin ? builtin(args, extra) : current.toolResults?.[name] ?? { content: [] };
+  });
+}
+if (capabilities.prompts) {
+  handle(ListPromptsRequestSchema, (_request, _extra, current) => ({ prompts: current.prompts ?? [] }));
+}
+if (capabilities.resources) {
+  handle(ListResourcesRequestSchema, (_request, _extra, current) => ({ resources: current.resources ?? [] }));
+  handle(ListResourceTemplatesRequestSchema, (_request, _extra, current) => ({
+    resourceTemplates: current.resourceTemplates ?? []
+  }));
+  handle(SubscribeRequestSchema, () => ({}));
+  handle(UnsubscribeRequestSchema, () => ({}));
+}
+if (capabilities.logging) {
+  handle(SetLevelRequestSchema, () => ({}));
+}
+handle(CompleteRequestSchema, () => ({ completion: { values: [] } }));
+
+// Asks the client for its roots as soon as the session is initialized, and journals the answer
+if (script.listRootsOnInitialized) {
+  server.oninitialized = async () => {
+    const result = await server.listRoots().catch(error => ({ error: error.message }));
+    journal({ type: 'roots', result });
+  };
+}
+
+const transport = new StdioServerTransport();
+await server.connect(transport);
+
+// Journal what arrives, and answer initialize with the scripted protocol version
+const onmessage = transport.onmessage;
+transport.onmessage = (message) => {
+  journal({ type: 'message', message });
+  onmessage?.(message);
+};
+const send = transport.send.bind(transport);
+transport.send = (message) => {
+  if (script.protocolVersion && message.result?.protocolVersion) {
+    message = { ...message, result: { ...message.result, protocolVersion: script.protocolVersion } };
+  }
+  return send(message);
+};
+
+const exit = () => {
+  journal({ type: 'exit' });
+  process.exit(0);
+};
+process.on('SIGTERM', exit);
+process.stdin.on('end', exit);